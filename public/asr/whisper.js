@@ -0,0 +1,28 @@
+// Local Whisper module for the 本地 Whisper speech engine, built on transformers.js (ONNX Runtime Web, CPU/WASM).
+//
+//   pnpm asr:fetch        # downloads transformers.js and the whisper-base model next to this file
+//
+// then enter /asr/whisper.js as the 本地识别模块地址. Everything is loaded from this directory, so recognition
+// keeps working offline once the files are in place.
+import { env, pipeline } from './vendor/transformers.min.js'
+
+// Must match the folder pnpm asr:fetch writes under ./models/
+const MODEL = 'whisper-base'
+
+env.allowRemoteModels = false
+env.allowLocalModels = true
+env.localModelPath = new URL('./models/', import.meta.url).href
+env.backends.onnx.wasm.wasmPaths = new URL('./vendor/', import.meta.url).href
+
+export async function load({ lang }) {
+  // The quantized encoder/decoder are what the fetch script downloads (about 80 MB instead of 290 MB)
+  const asr = await pipeline('automatic-speech-recognition', MODEL, { dtype: 'q8', device: 'wasm' })
+  const language = lang.split('-')[0].toLowerCase() || 'zh'
+  return {
+    // The engine already resampled the utterance to 16 kHz mono, which is what Whisper expects
+    async transcribe(samples) {
+      const out = await asr(samples, { language, task: 'transcribe' })
+      return (Array.isArray(out) ? out[0] : out).text.trim()
+    },
+  }
+}
@@ -0,0 +1,71 @@
+// Downloads what public/asr/whisper.js needs to run the 本地 Whisper engine offline:
+//
+//   pnpm asr:fetch
+//
+// - transformers.js and its ONNX Runtime WASM build from the npm CDN → public/asr/vendor/
+// - the quantized onnx-community/whisper-base model from Hugging Face → public/asr/models/whisper-base/
+//
+// Environment:
+//   HF_ENDPOINT (https://huggingface.co; e.g. https://hf-mirror.com where Hugging Face is unreachable)
+//   NPM_CDN (https://cdn.jsdelivr.net/npm)
+// Files that already exist are skipped, so an interrupted download can simply be run again.
+
+import { mkdir, rename, stat, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const env = process.env
+const ASR_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'asr')
+const HF_ENDPOINT = (env.HF_ENDPOINT || 'https://huggingface.co').replace(/\/+$/, '')
+const NPM_CDN = (env.NPM_CDN || 'https://cdn.jsdelivr.net/npm').replace(/\/+$/, '')
+
+const TRANSFORMERS_VERSION = '3.7.6'
+const TRANSFORMERS_FILES = ['transformers.min.js', 'ort-wasm-simd-threaded.jsep.mjs', 'ort-wasm-simd-threaded.jsep.wasm']
+const MODEL_REPO = 'onnx-community/whisper-base'
+// Keep in sync with MODEL in public/asr/whisper.js
+const MODEL_DIR = 'whisper-base'
+const MODEL_FILES = [
+  'config.json',
+  'generation_config.json',
+  'preprocessor_config.json',
+  'tokenizer.json',
+  'tokenizer_config.json',
+  'onnx/encoder_model_quantized.onnx',
+  'onnx/decoder_model_merged_quantized.onnx',
+]
+
+async function exists(path) {
+  try {
+    return (await stat(path)).size > 0
+  } catch {
+    return false
+  }
+}
+
+async function download(url, path) {
+  if (await exists(path)) {
+    console.log(`skip  ${path}`)
+    return
+  }
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText} ← ${url}`)
+  const body = Buffer.from(await res.arrayBuffer())
+  await mkdir(dirname(path), { recursive: true })
+  // Written under a temporary name first so a broken download is never mistaken for a finished one
+  await writeFile(`${path}.part`, body)
+  await rename(`${path}.part`, path)
+  console.log(`saved ${path} (${(body.length / 1024 / 1024).toFixed(1)} MB)`)
+}
+
+try {
+  for (const file of TRANSFORMERS_FILES) {
+    await download(`${NPM_CDN}/@huggingface/transformers@${TRANSFORMERS_VERSION}/dist/${file}`, join(ASR_DIR, 'vendor', file))
+  }
+  for (const file of MODEL_FILES) {
+    await download(`${HF_ENDPOINT}/${MODEL_REPO}/resolve/main/${file}`, join(ASR_DIR, 'models', MODEL_DIR, file))
+  }
+  console.log('\n完成：在“识别引擎”中选择本地 Whisper，模块地址填写 /asr/whisper.js。')
+} catch (e) {
+  console.error(`下载失败：${e instanceof Error ? e.message : String(e)}`)
+  process.exitCode = 1
+}
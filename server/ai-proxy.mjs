@@ -0,0 +1,331 @@
+// Local AI proxy: keeps vendor API keys on the server and forwards the few endpoints the app uses.
+//
+//   GEMINI_API_KEY=... DASHSCOPE_API_KEY=... pnpm proxy
+//
+// The browser (AI 辅助录入 → 调用方式：本地代理) calls
+//   POST /gemini/v1beta/models/<model>:generateContent   → generativelanguage.googleapis.com
+//   GET  /gemini/v1beta/models                             → generativelanguage.googleapis.com
+//   POST /dashscope/api/v1/services/aigc/text-generation/generation → dashscope.aliyuncs.com
+//   POST /dashscope/api/v1/services/aigc/multimodal-generation/generation (Qwen-VL, photo import)
+//   POST /openai/chat/completions, GET /openai/models      → OPENAI_BASE_URL
+// and sends its class name in X-Class-Name. Every request is logged with its class, and each class gets a daily
+// request budget; the header is client-controlled, so the budget only stops runaway use from honest pages, and the
+// per-minute limit keyed on the connection's remote address is what protects the keys.
+//
+// Environment:
+//   PROXY_PORT (8787), PROXY_HOST (127.0.0.1)
+//   PROXY_ALLOW_ORIGIN (comma-separated; defaults to the Vite dev and preview origins, "*" must be set explicitly)
+//   PROXY_RATE_LIMIT_PER_MINUTE (30, per client address; 0 disables), PROXY_LOG_FILE (optional, JSON lines)
+//   PROXY_CLASS_DAILY_LIMIT (0 = unlimited, requests per class per day), PROXY_CLASS_LIMITS ("三年二班=200,四年一班=50")
+//   GEMINI_API_KEY, DASHSCOPE_API_KEY (or QWEN_API_KEY), OPENAI_API_KEY, OPENAI_BASE_URL
+
+import { appendFile } from 'node:fs/promises'
+import { createServer } from 'node:http'
+
+const env = process.env
+const PORT = Number(env.PROXY_PORT) || 8787
+const HOST = env.PROXY_HOST || '127.0.0.1'
+const ALLOWED_ORIGINS = (env.PROXY_ALLOW_ORIGIN || 'http://localhost:5173,http://localhost:4173')
+  .split(',')
+  .map((s) => s.trim().replace(/\/+$/, ''))
+  .filter(Boolean)
+const ALLOW_ANY_ORIGIN = ALLOWED_ORIGINS.includes('*')
+const RATE_LIMIT_PER_MINUTE = env.PROXY_RATE_LIMIT_PER_MINUTE === undefined ? 30 : Number(env.PROXY_RATE_LIMIT_PER_MINUTE)
+const CLASS_DAILY_LIMIT = Number(env.PROXY_CLASS_DAILY_LIMIT) || 0
+const CLASS_LIMITS = parseClassLimits(env.PROXY_CLASS_LIMITS || '')
+const LOG_FILE = env.PROXY_LOG_FILE || ''
+// Photo imports send a downscaled JPEG inline (a few hundred KB of base64)
+const MAX_BODY_BYTES = 8 * 1024 * 1024
+
+const GEMINI_API_KEY = env.GEMINI_API_KEY || ''
+const DASHSCOPE_API_KEY = env.DASHSCOPE_API_KEY || env.QWEN_API_KEY || ''
+const OPENAI_API_KEY = env.OPENAI_API_KEY || ''
+const OPENAI_BASE_URL = (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+
+// Only these upstream calls are forwarded; anything else is rejected so the proxy cannot be used as an open relay.
+const ROUTES = [
+  {
+    prefix: '/gemini',
+    label: 'gemini',
+    allow: (method, path) =>
+      (method === 'GET' && path === '/v1beta/models') ||
+      (method === 'POST' && /^\/v1beta\/models\/[^/]+:generateContent$/.test(path)),
+    configured: () => Boolean(GEMINI_API_KEY),
+    missing: 'GEMINI_API_KEY',
+    upstream: (path, search) => {
+      const params = new URLSearchParams(search)
+      params.set('key', GEMINI_API_KEY)
+      return { url: `https://generativelanguage.googleapis.com${path}?${params}`, headers: {} }
+    },
+  },
+  {
+    prefix: '/dashscope',
+    label: 'dashscope',
+    allow: (method, path) =>
+      method === 'POST' &&
+      (path === '/api/v1/services/aigc/text-generation/generation' ||
+        path === '/api/v1/services/aigc/multimodal-generation/generation'),
+    configured: () => Boolean(DASHSCOPE_API_KEY),
+    missing: 'DASHSCOPE_API_KEY',
+    upstream: (path) => ({
+      url: `https://dashscope.aliyuncs.com${path}`,
+      headers: { Authorization: `Bearer ${DASHSCOPE_API_KEY}` },
+    }),
+  },
+  {
+    prefix: '/openai',
+    label: 'openai',
+    allow: (method, path) => (method === 'POST' && path === '/chat/completions') || (method === 'GET' && path === '/models'),
+    // Self-hosted OpenAI-compatible servers often run without a key: a base URL alone is enough.
+    configured: () => Boolean(OPENAI_API_KEY) || Boolean(env.OPENAI_BASE_URL),
+    missing: 'OPENAI_API_KEY 或 OPENAI_BASE_URL',
+    upstream: (path) => ({
+      url: `${OPENAI_BASE_URL}${path}`,
+      headers: OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {},
+    }),
+  },
+]
+
+// Sliding one-minute window of request timestamps per client address.
+const recentRequestsByClient = new Map()
+
+function checkRateLimit(client, now) {
+  if (!(RATE_LIMIT_PER_MINUTE > 0)) return 0
+  const windowStart = now - 60_000
+  const recent = (recentRequestsByClient.get(client) ?? []).filter((t) => t > windowStart)
+  if (recent.length >= RATE_LIMIT_PER_MINUTE) {
+    recentRequestsByClient.set(client, recent)
+    return Math.max(1, Math.ceil((recent[0] + 60_000 - now) / 1000))
+  }
+  recent.push(now)
+  recentRequestsByClient.set(client, recent)
+  return 0
+}
+
+// Drop clients whose window has emptied so the map does not grow with every address ever seen.
+function pruneRateLimits(now) {
+  const windowStart = now - 60_000
+  for (const [client, recent] of recentRequestsByClient) {
+    if (!recent.some((t) => t > windowStart)) recentRequestsByClient.delete(client)
+  }
+}
+
+setInterval(() => pruneRateLimits(Date.now()), 60_000).unref()
+
+// "三年二班=200,四年一班=50" → Map { 三年二班 → 200, 四年一班 → 50 }; malformed entries are reported and skipped.
+function parseClassLimits(value) {
+  const limits = new Map()
+  for (const part of value.split(',')) {
+    if (!part.trim()) continue
+    const at = part.lastIndexOf('=')
+    const name = at > 0 ? part.slice(0, at).trim() : ''
+    const limit = at > 0 ? Number(part.slice(at + 1)) : NaN
+    if (!name || !(limit >= 0)) {
+      console.warn(`忽略无法解析的 PROXY_CLASS_LIMITS 项：${part.trim()}`)
+      continue
+    }
+    limits.set(name, limit)
+  }
+  return limits
+}
+
+function localDay(now) {
+  const d = new Date(now)
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`
+}
+
+// Requests per class name on the current local day; the counts start over at midnight.
+let classUsageDay = ''
+const classUsageToday = new Map()
+
+function classDailyLimit(className) {
+  return CLASS_LIMITS.get(className) ?? CLASS_DAILY_LIMIT
+}
+
+// Returns the seconds until the budget resets when the class has used it up, otherwise counts the request and returns 0.
+function checkClassBudget(className, now) {
+  const day = localDay(now)
+  if (day !== classUsageDay) {
+    classUsageDay = day
+    classUsageToday.clear()
+  }
+  const limit = classDailyLimit(className)
+  const used = classUsageToday.get(className) ?? 0
+  if (limit > 0 && used >= limit) {
+    const midnight = new Date(now)
+    midnight.setHours(24, 0, 0, 0)
+    return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000))
+  }
+  classUsageToday.set(className, used + 1)
+  return 0
+}
+
+function classNameFromHeader(value) {
+  const raw = Array.isArray(value) ? value[0] : value
+  if (!raw) return '（未填写）'
+  try {
+    return decodeURIComponent(raw).trim() || '（未填写）'
+  } catch {
+    return raw.trim() || '（未填写）'
+  }
+}
+
+function logRequest(entry) {
+  const line = JSON.stringify({ time: new Date().toISOString(), ...entry })
+  console.log(line)
+  if (LOG_FILE) {
+    appendFile(LOG_FILE, `${line}\n`).catch((e) => console.error(`写入日志失败：${e.message}`))
+  }
+}
+
+function isOriginAllowed(origin) {
+  return !origin || ALLOW_ANY_ORIGIN || ALLOWED_ORIGINS.includes(origin)
+}
+
+function corsHeaders(origin) {
+  const allowOrigin = ALLOW_ANY_ORIGIN ? '*' : isOriginAllowed(origin) && origin ? origin : ''
+  return {
+    ...(allowOrigin ? { 'Access-Control-Allow-Origin': allowOrigin } : {}),
+    Vary: 'Origin',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Class-Name',
+    'Access-Control-Expose-Headers': 'Retry-After',
+  }
+}
+
+function sendJson(res, status, body, extraHeaders = {}) {
+  res.writeHead(status, { ...corsHeaders(res.req.headers.origin), 'Content-Type': 'application/json; charset=utf-8', ...extraHeaders })
+  res.end(JSON.stringify(body))
+}
+
+function sendError(res, status, message, extraHeaders) {
+  sendJson(res, status, { error: { message } }, extraHeaders)
+}
+
+async function readBody(req) {
+  const chunks = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new Error('请求体过大')
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+async function handle(req, res) {
+  const startedAt = Date.now()
+  const url = new URL(req.url ?? '/', 'http://proxy.local')
+  const method = req.method ?? 'GET'
+  const origin = req.headers.origin
+  const className = classNameFromHeader(req.headers['x-class-name'])
+  const client = req.socket.remoteAddress ?? 'unknown'
+  const log = (status, extra = {}) =>
+    logRequest({ className, client, method, path: url.pathname, status, ms: Date.now() - startedAt, ...extra })
+
+  // Browsers send Origin on cross-origin calls; pages from other sites must not spend this proxy's keys.
+  if (!isOriginAllowed(origin)) {
+    sendError(res, 403, `代理不接受来自 ${origin} 的请求：请把该地址加入 PROXY_ALLOW_ORIGIN`)
+    log(403)
+    return
+  }
+
+  if (method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(origin))
+    res.end()
+    return
+  }
+
+  if (method === 'GET' && url.pathname === '/health') {
+    sendJson(res, 200, {
+      ok: true,
+      providers: Object.fromEntries(ROUTES.map((r) => [r.label, r.configured()])),
+    })
+    return
+  }
+
+  const route = ROUTES.find((r) => url.pathname.startsWith(`${r.prefix}/`))
+  const path = route ? url.pathname.slice(route.prefix.length) : ''
+  if (!route || !route.allow(method, path)) {
+    sendError(res, 404, `代理不转发该请求：${method} ${url.pathname}`)
+    log(404)
+    return
+  }
+  if (!route.configured()) {
+    sendError(res, 500, `代理未配置 ${route.label}：请设置 ${route.missing}`)
+    log(500, { upstream: route.label })
+    return
+  }
+
+  const retryAfter = checkRateLimit(client, startedAt)
+  if (retryAfter) {
+    // Behind NAT a whole school shares one address, so the message must not promise a per-computer quota
+    sendError(
+      res,
+      429,
+      `请求过于频繁：同一网络地址每分钟最多 ${RATE_LIMIT_PER_MINUTE} 次（共用出口的电脑合并计算），请 ${retryAfter} 秒后再试`,
+      { 'Retry-After': String(retryAfter) },
+    )
+    log(429, { upstream: route.label })
+    return
+  }
+
+  const classRetryAfter = checkClassBudget(className, startedAt)
+  if (classRetryAfter) {
+    sendError(res, 429, `班级“${className}”今天的 AI 请求已达上限 ${classDailyLimit(className)} 次，请明天再试或请管理员调高限额`, {
+      'Retry-After': String(classRetryAfter),
+    })
+    log(429, { upstream: route.label, classLimit: classDailyLimit(className) })
+    return
+  }
+
+  let body
+  try {
+    body = method === 'POST' ? await readBody(req) : undefined
+  } catch (e) {
+    sendError(res, 413, e.message)
+    log(413, { upstream: route.label })
+    return
+  }
+
+  const target = route.upstream(path, url.search)
+  let upstream
+  try {
+    upstream = await fetch(target.url, {
+      method,
+      headers: { ...(body ? { 'Content-Type': 'application/json' } : {}), ...target.headers },
+      body,
+      signal: AbortSignal.timeout(120_000),
+    })
+  } catch (e) {
+    sendError(res, 502, `代理无法连接 ${route.label}：${e.message}`)
+    log(502, { upstream: route.label, error: e.message })
+    return
+  }
+
+  const payload = Buffer.from(await upstream.arrayBuffer())
+  const headers = { ...corsHeaders(origin), 'Content-Type': upstream.headers.get('content-type') || 'application/json' }
+  const upstreamRetryAfter = upstream.headers.get('retry-after')
+  if (upstreamRetryAfter) headers['Retry-After'] = upstreamRetryAfter
+  res.writeHead(upstream.status, headers)
+  res.end(payload)
+  log(upstream.status, { upstream: route.label, bytes: payload.length, classRequestsToday: classUsageToday.get(className) })
+}
+
+const server = createServer((req, res) => {
+  handle(req, res).catch((e) => {
+    console.error(e)
+    if (!res.headersSent) sendError(res, 500, `代理内部错误：${e.message}`)
+    else res.end()
+  })
+})
+
+server.listen(PORT, HOST, () => {
+  const configured = ROUTES.filter((r) => r.configured()).map((r) => r.label)
+  console.log(`AI 代理已启动：http://${HOST}:${PORT}（已配置：${configured.join(', ') || '无'}）`)
+  console.log(`允许的页面来源：${ALLOW_ANY_ORIGIN ? '任意（*）' : ALLOWED_ORIGINS.join(', ')}`)
+  const classLimits = [...CLASS_LIMITS].map(([name, limit]) => `${name} ${limit || '不限'}`)
+  console.log(
+    `每班每日请求上限：${CLASS_DAILY_LIMIT || '不限'}${classLimits.length ? `（单独设置：${classLimits.join('，')}）` : ''}`,
+  )
+})
@@ -1,46 +1,143 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
-import * as XLSX from 'xlsx'
-
-type MatchType = 'exact' | 'raw'
-
-type ParsedPair = {
-  studentId: string
-  name: string
-  rawStudentId: string
-  rawName: string
-  score: number
-  matchType: MatchType
-  confidence: number
-  source: string
-}
-
-type Entry = {
-  id: string
-  studentId: string
-  name: string
-  score: number | ''
-}
+import {
+  AI_CALL_PURPOSE_LABELS,
+  AI_DEFAULT_RETRIES,
+  AI_DEFAULT_TIMEOUT_MS,
+  type AiCallReport,
+  type AiOutboundRequest,
+  type AiPhotoMode,
+  type AiProviderConfig,
+  type AiProviderId,
+  type AiProxySettings,
+  describeAiError,
+  safeDecodeURIComponent,
+  trackAiCall,
+} from './ai/client.ts'
+import { type GeminiModelInfo, geminiListModels, geminiModelDisplayName } from './ai/gemini.ts'
+import { MOCK_AI_MODELS } from './ai/mock.ts'
+import { OPENAI_DEFAULT_BASE_URL } from './ai/openai.ts'
+import { pseudonymizeForAi } from './ai/privacy.ts'
+import {
+  AI_PROMPT_TEMPLATES,
+  type AiPromptOverride,
+  type AiPromptOverrides,
+  type AiPromptTemplateId,
+  buildScoreMatchingPrompt,
+  isAiPromptTemplateId,
+  parseAiPromptOverrides,
+  promptTemplateProblems,
+  resolvePromptTemplate,
+} from './ai/prompts.ts'
+import { AI_PROVIDERS, isAiProviderId } from './ai/providers.ts'
+import {
+  type AiReviewChoice,
+  type AiReviewRow,
+  aiReviewRecords,
+  aiReviewTableState,
+  buildAiReviewRows,
+} from './ai/review.ts'
+import {
+  AI_CHUNK_CONCURRENCY_OPTIONS,
+  AI_CHUNK_MAX_CHARS,
+  AI_COMMENT_BATCH_SIZE,
+  type AiScoreRejection,
+  aiDraftComments,
+  aiExtractRosterFromPhoto,
+  aiExtractRosterNamesWithExclusions,
+  aiExtractScoresFromPhoto,
+  aiParseHomeworkScores,
+  buildCommentDraftingPrompt,
+  buildPhotoExtractionPrompt,
+  buildRosterExtractionPrompt,
+  readImageForAi,
+  splitTranscriptIntoChunks,
+} from './ai/tasks.ts'
+import {
+  type AiUsageRecord,
+  aiBudgetBlockReason,
+  aiUsageMonthCost,
+  aiUsageMonthUnpriced,
+  appendAiUsageRecord,
+  estimateAiCostCny,
+  formatCny,
+  parseAiUsageLog,
+  summarizeAiUsage,
+} from './ai/usage.ts'
+import {
+  FUZZY_AUTO_ACCEPT_CONFIDENCE,
+  type ResolvedDictationEdit,
+  applyDictationEdits,
+  parseDictation,
+} from './dictation.ts'
+import {
+  ENTRY_STATUS_LABELS,
+  type Entry,
+  type EntryStatus,
+  applyDictationToEntries,
+  applyStatusEditsToEntries,
+  entryStatusLabel,
+  isEntryResolved,
+  mergeScoresIntoEntries,
+  pendingRosterStudents,
+  setEntryStatus,
+  withEntryScore,
+  withEntryStatus,
+} from './entries.ts'
+import {
+  type AssignmentRecord,
+  assignmentLabel,
+  gradebookDeleteAssignment,
+  gradebookFindAssignment,
+  gradebookGetAssignment,
+  gradebookListAssignments,
+  gradebookPutAssignment,
+  newAssignmentRecord,
+} from './gradebook.ts'
+import { GRADING_SCALE_CUSTOM, GRADING_SCALE_PRESETS, clampScore, resolveGradingScale } from './grading.ts'
+import {
+  type RosterItem,
+  normalizeRoster,
+  normalizeStudentId,
+  normalizeStudentName,
+  rosterItemsToText,
+  uniqueNames,
+  uniqueRosterItems,
+} from './roster.ts'
+import { SPEECH_ENGINE_LABELS, type SpeechEngineId, createWebSpeechEngine, isSpeechEngineId } from './speech/engines.ts'
+import {
+  GUIDED_ORDER_LABELS,
+  type GuidedOrder,
+  type GuidedRun,
+  guidedStudentOrder,
+  parseGuidedReply,
+} from './speech/guided.ts'
+import { LOCAL_ASR_EXAMPLE_MODULE_URL, createLocalWhisperEngine } from './speech/localWhisper.ts'
+import { READ_BACK_REJECT_RE, readBackText, speakText, spokenGrade } from './speech/readBack.ts'
+import { type SpeechReplayScript, createFileReplayEngine, parseSpeechReplayScript } from './speech/replay.ts'
+import {
+  type RecognitionSession,
+  SPEECH_MAX_ALTERNATIVES,
+  chooseDictationAlternative,
+  createRecognitionSession,
+  isSpokenInUtterances,
+} from './speech/session.ts'
+import {
+  type RosterColumnMapping,
+  type SheetRows,
+  detectRosterColumns,
+  exportToExcel,
+  parseExportedGradeSheet,
+  readSpreadsheetRows,
+  rosterClassesFromRows,
+  rosterItemsFromRows,
+  sheetColumnLabel,
+} from './spreadsheet.ts'
+import { EXCELLENT_PERCENT, PASS_PERCENT, computeScoreStats, scoreStatsItems } from './stats.ts'
+import { isAbortError, safeTodayISO, uid } from './utils.ts'
 
 type GeminiRosterMode = 'append' | 'replace'
 
-type GeminiGenerateContentResponse = {
-  candidates?: Array<{
-    content?: {
-      parts?: Array<{
-        text?: string
-      }>
-    }
-  }>
-}
-
-type GeminiModelInfo = {
-  name: string // e.g. "models/gemini-2.0-flash"
-  displayName?: string
-  description?: string
-  supportedGenerationMethods?: string[]
-}
-
 const GEMINI_CUSTOM_MODEL = '__custom__'
 const GEMINI_MANUAL_PRESETS = [
   'gemini-1.5-flash',
@@ -49,763 +146,30 @@ const GEMINI_MANUAL_PRESETS = [
   'gemini-2.0-flash-lite',
 ] as const
 
-type AiProvider = 'gemini' | 'qwen'
-
 const QWEN_CUSTOM_MODEL = '__custom__'
 const QWEN_MANUAL_PRESETS = ['qwen-turbo', 'qwen-plus', 'qwen-max', 'qwen-long'] as const
 
-function isAbortError(e: unknown) {
-  return e instanceof DOMException && e.name === 'AbortError'
-}
-
-type RosterItem = {
-  studentId: string
-  name: string
-}
-
-function normalizeGeminiModelSegment(model: string) {
-  const m = model.trim()
-  if (!m) return ''
-  return m.startsWith('models/') ? m.slice('models/'.length) : m
-}
-
-function geminiModelDisplayName(modelName: string) {
-  return modelName.replace(/^models\//, '')
-}
-
-async function geminiListModels(params: {
-  apiKey: string
-  signal?: AbortSignal
-}): Promise<GeminiModelInfo[]> {
-  const { apiKey, signal } = params
-  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`
-  const res = await fetch(endpoint, { signal })
-  if (!res.ok) {
-    let details = ''
-    try {
-      details = JSON.stringify(await res.json())
-    } catch {
-      details = await res.text()
-    }
-    throw new Error(`获取 Gemini 模型列表失败：HTTP ${res.status} ${res.statusText}${details ? ` - ${details}` : ''}`)
-  }
-  const data = (await res.json()) as { models?: GeminiModelInfo[] }
-  return data.models ?? []
-}
-
-type QwenGenerateResponse = {
-  output?: {
-    text?: string
-    choices?: Array<{
-      message?: {
-        role?: string
-        content?: string
-      }
-      text?: string
-    }>
-  }
-  message?: string
-}
-
-async function qwenGenerateText(params: {
-  apiKey: string
-  model: string
-  prompt: string
-  signal?: AbortSignal
-  temperature?: number
-  maxTokens?: number
-}): Promise<string> {
-  const { apiKey, model, prompt, signal, temperature = 0.2, maxTokens = 1024 } = params
-  // DashScope Qwen text-generation (may require backend proxy due to CORS).
-  const endpoint = 'https://dashscope.aliyuncs.com/api/v1/services/aigc/text-generation/generation'
-  const res = await fetch(endpoint, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    signal,
-    body: JSON.stringify({
-      model,
-      input: {
-        // result_format: message -> output.choices[0].message.content in some responses
-        prompt,
-      },
-      parameters: {
-        temperature,
-        max_tokens: maxTokens,
-        result_format: 'message',
-      },
-    }),
-  })
-
-  if (!res.ok) {
-    let details = ''
-    try {
-      details = JSON.stringify(await res.json())
-    } catch {
-      details = await res.text()
-    }
-    throw new Error(`千问 API 请求失败：HTTP ${res.status} ${res.statusText}${details ? ` - ${details}` : ''}`)
-  }
-
-  const data = (await res.json()) as QwenGenerateResponse
-  const content =
-    data.output?.choices?.[0]?.message?.content ??
-    data.output?.choices?.[0]?.text ??
-    data.output?.text ??
-    ''
-  return String(content || '').trim()
-}
-
-function rosterItemsToText(items: RosterItem[]) {
-  return items
-    .map((it) => {
-      const id = normalizeStudentId(it.studentId)
-      const name = normalizeStudentName(it.name)
-      if (!name) return ''
-      return id ? `${id}\t${name}` : name
-    })
-    .filter(Boolean)
-    .join('\n')
-}
-
-function safeTodayISO() {
-  const now = new Date()
-  const yyyy = String(now.getFullYear())
-  const mm = String(now.getMonth() + 1).padStart(2, '0')
-  const dd = String(now.getDate()).padStart(2, '0')
-  return `${yyyy}-${mm}-${dd}`
-}
-
-function uid() {
-  if ('randomUUID' in crypto) return crypto.randomUUID()
-  return `${Date.now()}_${Math.random().toString(16).slice(2)}`
-}
-
-function normalizeStudentId(raw: string) {
-  return raw.replace(/[^\d]/g, '').trim()
-}
-
-function normalizeStudentName(raw: string) {
-  const cleaned = raw
-    .trim()
-    .replace(/[，,。.\t]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .replace(/^\d+\s*/g, '') // strip leading index
-    .replace(/^(姓名|名字|学号|學號)[:：]\s*/g, '')
-    .replace(/(同学|同學)$/g, '')
-    .trim()
-
-  const onlyZh = cleaned.replace(/[^\u4e00-\u9fa5]/g, '')
-  return (onlyZh || cleaned).trim()
-}
-
-function parseRosterLine(line: string): RosterItem | null {
-  const s = line.trim()
-  if (!s) return null
-  // Common patterns:
-  // - "202401 张三"
-  // - "张三 202401"
-  // - "张三"
-  const tokens = s.split(/[\s,，;；]+/g).filter(Boolean)
-  let id = ''
-  let name = ''
-
-  for (const t of tokens) {
-    const maybeId = normalizeStudentId(t)
-    const maybeName = normalizeStudentName(t)
-    if (!id && maybeId && maybeId.length >= 4) id = maybeId
-    if (!name && maybeName && /[\u4e00-\u9fa5]{2,8}/.test(maybeName)) name = maybeName
-  }
-
-  if (!name) {
-    // fallback: try extracting name from whole line
-    const n = normalizeStudentName(s)
-    if (n && /[\u4e00-\u9fa5]{2,8}/.test(n)) name = n
-  }
-  if (!id) {
-    // fallback: first long digit sequence
-    const m = s.match(/\d{4,}/)
-    if (m) id = normalizeStudentId(m[0])
-  }
-  if (!name) return null
-  return { studentId: id, name }
-}
-
-function normalizeRoster(text: string): RosterItem[] {
-  const items = text
-    .split(/\r?\n/g)
-    .map((s) => parseRosterLine(s))
-    .filter((x): x is RosterItem => Boolean(x))
-
-  // Dedupe: prefer studentId; otherwise by name
-  const byId = new Map<string, RosterItem>()
-  const byName = new Map<string, RosterItem>()
-  for (const it of items) {
-    const id = normalizeStudentId(it.studentId)
-    const name = normalizeStudentName(it.name)
-    const normalized: RosterItem = { studentId: id, name }
-    if (id) byId.set(id, normalized)
-    else byName.set(name, normalized)
-  }
-  const merged = [...byId.values()]
-  for (const it of byName.values()) {
-    // if same name already exists with id, skip
-    if (merged.some((x) => x.name === it.name)) continue
-    merged.push(it)
-  }
-  return merged
-}
-
-function normalizeTranscript(text: string) {
-  const noise = [
-    '今天',
-    '语文',
-    '作业',
-    '同学',
-    '同學',
-    '分数',
-    '成绩',
-    '成績',
-    '得了',
-    '得',
-    '是',
-    '为',
-    '分',
-    '，',
-    ',',
-    '。',
-    '.',
-    '、',
-    '：',
-    ':',
-    '；',
-    ';',
-    '（',
-    '(',
-    '）',
-    ')',
-    '【',
-    '[',
-    '】',
-    ']',
-    '“',
-    '"',
-    '”',
-    '"',
-    '？',
-    '?',
-    '！',
-    '!',
-  ]
-  let out = text
-  for (const w of noise) out = out.split(w).join(' ')
-  return out.replace(/\s+/g, ' ').trim()
-}
-
-function chineseToNumber(raw: string) {
-  const s = raw.replace(/分/g, '').trim()
-  if (!s) return null
-  if (/^\d{1,3}$/.test(s)) return Number.parseInt(s, 10)
-
-  // Basic Chinese numerals up to 999
-  const digit: Record<string, number> = {
-    零: 0,
-    〇: 0,
-    一: 1,
-    二: 2,
-    两: 2,
-    三: 3,
-    四: 4,
-    五: 5,
-    六: 6,
-    七: 7,
-    八: 8,
-    九: 9,
-  }
-
-  const chars = Array.from(s)
-  let total = 0
-  let current = 0
-  let seenAny = false
-
-  const flushUnit = (unit: number) => {
-    if (!seenAny) return
-    if (current === 0) current = 1 // e.g. "十" -> 10
-    total += current * unit
-    current = 0
-  }
-
-  for (const ch of chars) {
-    if (ch in digit) {
-      current = digit[ch]
-      seenAny = true
-      continue
-    }
-    if (ch === '百') {
-      seenAny = true
-      flushUnit(100)
-      continue
-    }
-    if (ch === '十') {
-      seenAny = true
-      flushUnit(10)
-      continue
-    }
-    // ignore unknown chars
-  }
-  if (!seenAny) return null
-  total += current
-  return total
-}
-
-function clampScore(n: number) {
-  if (Number.isNaN(n)) return null
-  if (n < 0) return 0
-  if (n > 100) return 100
-  return n
-}
-
-function parsePairsFromText(text: string, roster: RosterItem[]): ParsedPair[] {
-  const normalized = normalizeTranscript(text)
-  if (!normalized) return []
-
-  const results: ParsedPair[] = []
-  // e.g.
-  // - "张三 95"
-  // - "202401 95"
-  // - "李四九十五分"
-  const re =
-    /((?:\d{4,}|[\u4e00-\u9fa5]{2,8}))\s*(?:得|是|为)?\s*([0-9]{1,3}|[零〇一二两三四五六七八九十百]{1,6})\s*(?:分)?/g
-  for (const match of normalized.matchAll(re)) {
-    const rawIdOrName = (match[1] ?? '').trim()
-    const rawScore = (match[2] ?? '').trim()
-    const num = chineseToNumber(rawScore)
-    if (num === null) continue
-    const score = clampScore(num)
-    if (score === null) continue
-
-    const rawStudentId = normalizeStudentId(rawIdOrName)
-    const rawName = normalizeStudentName(rawIdOrName)
-
-    let matched: { studentId: string; name: string; matchType: MatchType; confidence: number } = {
-      studentId: rawStudentId,
-      name: rawName || rawIdOrName,
-      matchType: 'raw',
-      confidence: 0,
-    }
-
-    if (rawStudentId) {
-      const byId = roster.find((r) => r.studentId && r.studentId === rawStudentId)
-      if (byId) matched = { studentId: byId.studentId, name: byId.name, matchType: 'exact', confidence: 1 }
-    } else if (rawName) {
-      const byName = roster.find((r) => r.name === rawName)
-      if (byName) matched = { studentId: byName.studentId, name: byName.name, matchType: 'exact', confidence: 1 }
-    }
-
-    results.push({
-      studentId: matched.studentId,
-      name: matched.name,
-      rawStudentId,
-      rawName,
-      score,
-      matchType: matched.matchType,
-      confidence: matched.confidence,
-      source: match[0] ?? '',
-    })
-  }
-
-  // De-duplicate by studentId if available, else by name
-  const byKey = new Map<string, ParsedPair>()
-  for (const item of results) {
-    const key = item.studentId ? `id:${item.studentId}` : `name:${item.name}`
-    byKey.set(key, item)
-  }
-  return Array.from(byKey.values())
-}
-
-function exportToExcel(params: {
-  date: string
-  homeworkTitle: string
-  entries: Entry[]
-}) {
-  const { date, homeworkTitle, entries } = params
-  const clean = entries
-    .filter((e) => e.name.trim() && e.score !== '')
-    .map((e) => ({ studentId: e.studentId.trim(), name: e.name.trim(), score: Number(e.score) }))
-    .sort((a, b) => {
-      const aid = a.studentId || ''
-      const bid = b.studentId || ''
-      if (aid && bid) return aid.localeCompare(bid, 'en')
-      if (aid) return -1
-      if (bid) return 1
-      return a.name.localeCompare(b.name, 'zh-Hans-CN')
-    })
-
-  const aoa: (string | number)[][] = [
-    ['语文作业成绩登记表'],
-    ['日期', date, '作业', homeworkTitle || '（未填写）'],
-    [],
-    ['学号', '姓名', '成绩'],
-    ...clean.map((r) => [r.studentId, r.name, r.score]),
-  ]
-
-  const ws = XLSX.utils.aoa_to_sheet(aoa)
-  ws['!cols'] = [{ wch: 14 }, { wch: 14 }, { wch: 8 }, { wch: 24 }]
-  const wb = XLSX.utils.book_new()
-  XLSX.utils.book_append_sheet(wb, ws, '登记表')
-
-  const filename = `语文作业成绩_${date}.xlsx`
-  XLSX.writeFile(wb, filename)
-}
-
-function uniqueNames(names: string[]) {
-  const seen = new Set<string>()
-  const out: string[] = []
-  for (const n of names) {
-    const cleaned = normalizeStudentName(n)
-    if (!cleaned) continue
-    if (seen.has(cleaned)) continue
-    seen.add(cleaned)
-    out.push(cleaned)
-  }
-  return out
-}
-
-function uniqueRosterItems(items: RosterItem[]) {
-  const byId = new Map<string, RosterItem>()
-  const byName = new Map<string, RosterItem>()
-  for (const it of items) {
-    const id = normalizeStudentId(it.studentId)
-    const name = normalizeStudentName(it.name)
-    if (!name) continue
-    const normalized: RosterItem = { studentId: id, name }
-    if (id) byId.set(id, normalized)
-    else byName.set(name, normalized)
-  }
-  const merged = [...byId.values()]
-  for (const it of byName.values()) {
-    if (merged.some((x) => x.name === it.name)) continue
-    merged.push(it)
-  }
-  return merged
-}
-
-function extractJsonArrayFromText(text: string) {
-  const trimmed = text.trim()
-  // Prefer full JSON array
-  const firstArr = trimmed.indexOf('[')
-  const lastArr = trimmed.lastIndexOf(']')
-  if (firstArr !== -1 && lastArr !== -1 && lastArr > firstArr) {
-    const json = trimmed.slice(firstArr, lastArr + 1)
-    return json
-  }
-  return null
-}
-
-async function geminiParseHomeworkScores(params: {
-  apiKey: string
-  model: string
-  transcript: string
-  roster: RosterItem[]
-  signal?: AbortSignal
-}): Promise<Array<{ studentId: string; name: string; score: number }>> {
-  const { apiKey, model, transcript, roster, signal } = params
-  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
-    normalizeGeminiModelSegment(model),
-  )}:generateContent?key=${encodeURIComponent(apiKey)}`
-
-  const prompt = [
-    '你是语文老师的“作业成绩语音录入助手”。',
-    '给你两份输入：1) 花名册（包含学号 studentId 与姓名 name）2) 老师口述成绩的识别文本。',
-    '任务：从识别文本中提取每个学生的成绩，并把“学号或姓名”映射为花名册中的学生。',
-    '',
-    '强约束：',
-    '1) 只输出 JSON 数组，不要任何额外文字',
-    '2) 数组元素是对象：{"studentId":"<花名册里的studentId，可为空字符串>","name":"<花名册里的name>","score":<0-100整数>}',
-    '3) name 必须严格来自花名册；studentId 必须与该 name 对应（若花名册中该学生学号为空，则 studentId 也输出空字符串）',
-    '4) 允许老师用“学号”或“姓名”报分；但输出必须是花名册中的标准记录',
-    '4) 同一学生出现多次取“最后一次”成绩',
-    '5) 过滤噪声词（如：语文/作业/成绩/分数/今天/同学/得了/是/为等）',
-    '',
-    '花名册：',
-    JSON.stringify(roster),
-    '',
-    '识别文本：',
-    transcript,
-  ].join('\n')
-
-  const res = await fetch(endpoint, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    signal,
-    body: JSON.stringify({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1,
-        topP: 0.9,
-        maxOutputTokens: 1024,
-      },
-    }),
-  })
-
-  if (!res.ok) {
-    let details = ''
-    try {
-      details = JSON.stringify(await res.json())
-    } catch {
-      details = await res.text()
-    }
-    throw new Error(`Gemini API 请求失败：HTTP ${res.status} ${res.statusText}${details ? ` - ${details}` : ''}`)
-  }
-
-  const data = (await res.json()) as GeminiGenerateContentResponse
-  const parts = data.candidates?.[0]?.content?.parts ?? []
-  const text = parts
-    .map((p) => p.text ?? '')
-    .map((t) => t.trim())
-    .filter(Boolean)
-    .join('\n')
-
-  const jsonArr = extractJsonArrayFromText(text)
-  if (!jsonArr) return []
-
-  const parsed = JSON.parse(jsonArr) as unknown
-  if (!Array.isArray(parsed)) return []
-
-  const rosterByName = new Map<string, RosterItem>()
-  const rosterById = new Map<string, RosterItem>()
-  for (const r of roster) {
-    if (r.name) rosterByName.set(r.name, r)
-    if (r.studentId) rosterById.set(r.studentId, r)
-  }
-
-  const byKey = new Map<string, { studentId: string; name: string; score: number }>()
-  for (const item of parsed) {
-    if (!item || typeof item !== 'object') continue
-    const name = normalizeStudentName(String((item as { name?: unknown }).name ?? ''))
-    const studentId = normalizeStudentId(String((item as { studentId?: unknown }).studentId ?? ''))
-    const scoreRaw = (item as { score?: unknown }).score
-    const scoreNum = typeof scoreRaw === 'number' ? scoreRaw : Number(scoreRaw)
-    if (!name) continue
-    if (!Number.isFinite(scoreNum)) continue
-    const s = clampScore(Math.round(scoreNum))
-    if (s === null) continue
-
-    const matchedById = studentId ? rosterById.get(studentId) : undefined
-    const matchedByName = rosterByName.get(name)
-    const matched = matchedById ?? matchedByName
-    if (!matched) continue
-
-    // Ensure name aligns with roster record
-    if (matched.name !== name) continue
-    // Ensure id aligns with roster record (unless roster has no id)
-    if (matched.studentId && matched.studentId !== studentId) continue
-
-    const outId = matched.studentId || ''
-    const key = outId ? `id:${outId}` : `name:${matched.name}`
-    byKey.set(key, { studentId: outId, name: matched.name, score: s })
-  }
-  return Array.from(byKey.values())
-}
-
-async function aiParseHomeworkScores(params: {
-  provider: AiProvider
-  apiKey: string
-  model: string
-  transcript: string
-  roster: RosterItem[]
-  signal?: AbortSignal
-}): Promise<Array<{ studentId: string; name: string; score: number }>> {
-  const { provider, apiKey, model, transcript, roster, signal } = params
-  if (provider === 'gemini') {
-    return await geminiParseHomeworkScores({ apiKey, model, transcript, roster, signal })
-  }
-
-  const prompt = [
-    '你是语文老师的“作业成绩语音录入助手”。',
-    '给你两份输入：1) 花名册（包含学号 studentId 与姓名 name）2) 老师口述成绩的识别文本。',
-    '任务：从识别文本中提取每个学生的成绩，并把“学号或姓名”映射为花名册中的学生。',
-    '',
-    '强约束：',
-    '1) 只输出 JSON 数组，不要任何额外文字',
-    '2) 数组元素是对象：{"studentId":"<花名册里的studentId，可为空字符串>","name":"<花名册里的name>","score":<0-100整数>}',
-    '3) name 必须严格来自花名册；studentId 必须与该 name 对应（若花名册中该学生学号为空，则 studentId 也输出空字符串）',
-    '4) 允许老师用“学号”或“姓名”报分；但输出必须是花名册中的标准记录',
-    '5) 同一学生出现多次取“最后一次”成绩',
-    '',
-    '花名册：',
-    JSON.stringify(roster),
-    '',
-    '识别文本：',
-    transcript,
-  ].join('\n')
-
-  const text = await qwenGenerateText({ apiKey, model, prompt, signal, temperature: 0.1, maxTokens: 1024 })
-  const jsonArr = extractJsonArrayFromText(text)
-  if (!jsonArr) return []
-
-  const parsed = JSON.parse(jsonArr) as unknown
-  if (!Array.isArray(parsed)) return []
-
-  // Reuse the same strict validation as Gemini path:
-  const rosterByName = new Map<string, RosterItem>()
-  const rosterById = new Map<string, RosterItem>()
-  for (const r of roster) {
-    if (r.name) rosterByName.set(r.name, r)
-    if (r.studentId) rosterById.set(r.studentId, r)
-  }
-  const byKey = new Map<string, { studentId: string; name: string; score: number }>()
-  for (const item of parsed) {
-    if (!item || typeof item !== 'object') continue
-    const name = normalizeStudentName(String((item as { name?: unknown }).name ?? ''))
-    const studentId = normalizeStudentId(String((item as { studentId?: unknown }).studentId ?? ''))
-    const scoreRaw = (item as { score?: unknown }).score
-    const scoreNum = typeof scoreRaw === 'number' ? scoreRaw : Number(scoreRaw)
-    if (!name) continue
-    if (!Number.isFinite(scoreNum)) continue
-    const s = clampScore(Math.round(scoreNum))
-    if (s === null) continue
-
-    const matchedById = studentId ? rosterById.get(studentId) : undefined
-    const matchedByName = rosterByName.get(name)
-    const matched = matchedById ?? matchedByName
-    if (!matched) continue
-    if (matched.name !== name) continue
-    if (matched.studentId && matched.studentId !== studentId) continue
-
-    const outId = matched.studentId || ''
-    const key = outId ? `id:${outId}` : `name:${matched.name}`
-    byKey.set(key, { studentId: outId, name: matched.name, score: s })
-  }
-  return Array.from(byKey.values())
-}
-
-async function geminiExtractRosterNamesWithExclusions(params: {
-  apiKey: string
-  model: string
-  inputText: string
-  existingNames: string[]
-  signal?: AbortSignal
-}): Promise<string[]> {
-  const { apiKey, model, inputText, existingNames, signal } = params
-  const endpoint = `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(
-    normalizeGeminiModelSegment(model),
-  )}:generateContent?key=${encodeURIComponent(apiKey)}`
-
-  const prompt = [
-    '你是一个帮助语文老师整理“花名册”的助手。',
-    '任务：从用户提供的原始文本中提取学生姓名，输出 JSON 数组（只输出 JSON，不要多余文字）。',
-    '',
-    '强约束：',
-    '1) 只输出 JSON 数组，例如：["张三","李四"]',
-    '2) 去除序号、班级、学号、括号备注、标点，保留姓名本体',
-    '3) 过滤明显非姓名的词（如“语文/作业/成绩/名单/男/女/缺勤”等）',
-    '4) 不要输出重复姓名',
-    `5) 不要输出已存在的姓名（已有名单）：${JSON.stringify(existingNames)}`,
-    '6) 如果无法确定，请保守处理，不要编造姓名',
-    '',
-    '原始文本：',
-    inputText,
-  ].join('\n')
-
-  const res = await fetch(endpoint, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    signal,
-    body: JSON.stringify({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.2,
-        topP: 0.9,
-        maxOutputTokens: 1024,
-      },
-    }),
-  })
+type AiTransport = 'direct' | 'proxy'
+const AI_PROXY_DEFAULT_URL = 'http://localhost:8787'
 
-  if (!res.ok) {
-    let details = ''
-    try {
-      details = JSON.stringify(await res.json())
-    } catch {
-      details = await res.text()
-    }
-    throw new Error(`Gemini API 请求失败：HTTP ${res.status} ${res.statusText}${details ? ` - ${details}` : ''}`)
-  }
-
-  const data = (await res.json()) as GeminiGenerateContentResponse
-  const parts = data.candidates?.[0]?.content?.parts ?? []
-  const text = parts
-    .map((p) => p.text ?? '')
-    .map((t) => t.trim())
-    .filter(Boolean)
-    .join('\n')
-
-  const jsonArr = extractJsonArrayFromText(text)
-  if (jsonArr) {
-    try {
-      const parsed = JSON.parse(jsonArr) as unknown
-      if (Array.isArray(parsed)) return uniqueNames(parsed.map((x) => String(x)))
-    } catch {
-      // fallthrough to line parsing
-    }
-  }
-
-  const fallback = text
-    .split(/\r?\n/g)
-    .map((s: string) => s.trim())
-    .filter(Boolean)
-  return uniqueNames(fallback)
+type AiOutboundLogEntry = AiOutboundRequest & {
+  id: string
+  time: number
+  providerLabel: string
+  pseudonymized: boolean
 }
 
-async function aiExtractRosterNamesWithExclusions(params: {
-  provider: AiProvider
-  apiKey: string
-  model: string
-  inputText: string
-  existingNames: string[]
-  signal?: AbortSignal
-}): Promise<string[]> {
-  const { provider, apiKey, model, inputText, existingNames, signal } = params
-  if (provider === 'gemini') {
-    return await geminiExtractRosterNamesWithExclusions({ apiKey, model, inputText, existingNames, signal })
-  }
-  const prompt = [
-    '你是一个帮助语文老师整理“花名册”的助手。',
-    '任务：从用户提供的原始文本中提取学生姓名，输出 JSON 数组（只输出 JSON，不要多余文字）。',
-    '',
-    '强约束：',
-    '1) 只输出 JSON 数组，例如：["张三","李四"]',
-    '2) 去除序号、班级、学号、括号备注、标点，保留姓名本体',
-    '3) 过滤明显非姓名的词（如“语文/作业/成绩/名单/男/女/缺勤”等）',
-    '4) 不要输出重复姓名',
-    `5) 不要输出已存在的姓名（已有名单）：${JSON.stringify(existingNames)}`,
-    '6) 如果无法确定，请保守处理，不要编造姓名',
-    '',
-    '原始文本：',
-    inputText,
-  ].join('\n')
-  const text = await qwenGenerateText({ apiKey, model, prompt, signal, temperature: 0.2, maxTokens: 1024 })
-  const jsonArr = extractJsonArrayFromText(text)
-  if (jsonArr) {
-    try {
-      const parsed = JSON.parse(jsonArr) as unknown
-      if (Array.isArray(parsed)) return uniqueNames(parsed.map((x) => String(x)))
-    } catch {
-      // fallthrough
-    }
-  }
-  const fallback = text
-    .split(/\r?\n/g)
-    .map((s: string) => s.trim())
-    .filter(Boolean)
-  return uniqueNames(fallback)
-}
+const AI_OUTBOUND_LOG_LIMIT = 50
+const AI_PRIVACY_PHOTO_BLOCKED = '隐私模式下不会把名单或成绩表照片发送给 AI：请暂时关闭隐私模式，或改用导入 Excel/CSV。'
+const AI_PRIVACY_ROSTER_BLOCKED = '隐私模式下不会把名单原文发送给 AI：请用“导入 Excel/CSV”整理花名册，或暂时关闭隐私模式。'
 
 function App() {
+  const [className, setClassName] = useState(() => localStorage.getItem('className') || '')
   const [date, setDate] = useState(() => safeTodayISO())
   const [homeworkTitle, setHomeworkTitle] = useState('')
+  const [gradingScaleId, setGradingScaleId] = useState(() => localStorage.getItem('gradingScaleId') || 'percent')
+  const [customMaxScore, setCustomMaxScore] = useState(() => Number(localStorage.getItem('customMaxScore')) || 100)
+  const gradingScale = useMemo(() => resolveGradingScale(gradingScaleId, customMaxScore), [gradingScaleId, customMaxScore])
   const [rosterText, setRosterText] = useState(() => {
     const fromStorage = localStorage.getItem('rosterText')
     return (
@@ -828,9 +192,12 @@ function App() {
     return m
   }, [roster])
 
-  const [aiProvider, setAiProvider] = useState<AiProvider>(() => {
-    const saved = localStorage.getItem('aiProvider') as AiProvider | null
-    return saved || 'gemini'
+  const [aiProvider, setAiProvider] = useState<AiProviderId>(() => {
+    // VITE_AI_PROVIDER=mock lets automated tests run every AI flow offline
+    const envProvider = import.meta.env.VITE_AI_PROVIDER
+    if (envProvider && isAiProviderId(envProvider)) return envProvider
+    const saved = localStorage.getItem('aiProvider')
+    return saved && isAiProviderId(saved) ? saved : 'gemini'
   })
 
   const [geminiApiKey, setGeminiApiKey] = useState(() => {
@@ -841,9 +208,15 @@ function App() {
     const envKey = import.meta.env.VITE_QWEN_API_KEY
     return envKey || localStorage.getItem('qwenApiKey') || ''
   })
+  const [openaiApiKey, setOpenaiApiKey] = useState(() => {
+    const envKey = import.meta.env.VITE_OPENAI_API_KEY
+    return envKey || localStorage.getItem('openaiApiKey') || ''
+  })
 
   const [rememberAiKey, setRememberAiKey] = useState(() => {
-    return Boolean(localStorage.getItem('geminiApiKey') || localStorage.getItem('qwenApiKey'))
+    return Boolean(
+      localStorage.getItem('geminiApiKey') || localStorage.getItem('qwenApiKey') || localStorage.getItem('openaiApiKey'),
+    )
   })
   const [geminiModels, setGeminiModels] = useState<GeminiModelInfo[]>([])
   const [geminiModelsLoading, setGeminiModelsLoading] = useState(false)
@@ -869,20 +242,164 @@ function App() {
   const [qwenModelCustom, setQwenModelCustom] = useState(() => localStorage.getItem('qwenModelCustom') || '')
   const qwenModel = qwenModelChoice === QWEN_CUSTOM_MODEL ? qwenModelCustom.trim() : qwenModelChoice.trim()
 
-  const aiApiKey = aiProvider === 'gemini' ? geminiApiKey.trim() : qwenApiKey.trim()
-  const aiModel = aiProvider === 'gemini' ? geminiModel : qwenModel
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState(
+    () => import.meta.env.VITE_OPENAI_BASE_URL || localStorage.getItem('openaiBaseUrl') || OPENAI_DEFAULT_BASE_URL,
+  )
+  const [openaiModel, setOpenaiModel] = useState(() => localStorage.getItem('openaiModel') || '')
+  const [mockModel, setMockModel] = useState(() => localStorage.getItem('mockModel') || MOCK_AI_MODELS[0])
+  const [mockModels, setMockModels] = useState<string[]>([])
+  const [mockModelsStatus, setMockModelsStatus] = useState('')
+  const [openaiModels, setOpenaiModels] = useState<string[]>([])
+  const [openaiModelsLoading, setOpenaiModelsLoading] = useState(false)
+  const [openaiModelsStatus, setOpenaiModelsStatus] = useState('')
+
+  const [aiTransport, setAiTransport] = useState<AiTransport>(() => {
+    const saved = localStorage.getItem('aiTransport')
+    if (saved === 'direct' || saved === 'proxy') return saved
+    return import.meta.env.VITE_AI_PROXY_URL ? 'proxy' : 'direct'
+  })
+  const [aiProxyUrl, setAiProxyUrl] = useState(
+    () => import.meta.env.VITE_AI_PROXY_URL || localStorage.getItem('aiProxyUrl') || AI_PROXY_DEFAULT_URL,
+  )
+  const aiProxy = useMemo<AiProxySettings | null>(
+    () => (aiTransport === 'proxy' && aiProxyUrl.trim() ? { url: aiProxyUrl.trim(), className: className.trim() } : null),
+    [aiTransport, aiProxyUrl, className],
+  )
+  const [aiTimeoutSeconds, setAiTimeoutSeconds] = useState(() => {
+    const saved = Number(localStorage.getItem('aiTimeoutSeconds'))
+    return saved > 0 ? saved : AI_DEFAULT_TIMEOUT_MS / 1000
+  })
+  const [aiRetries, setAiRetries] = useState(() => {
+    const saved = localStorage.getItem('aiRetries')
+    return saved !== null && Number(saved) >= 0 ? Number(saved) : AI_DEFAULT_RETRIES
+  })
+  const [aiChunkConcurrency, setAiChunkConcurrency] = useState(() => {
+    const saved = Number(localStorage.getItem('aiChunkConcurrency'))
+    return (AI_CHUNK_CONCURRENCY_OPTIONS as readonly number[]).includes(saved) ? saved : 1
+  })
+  const aiRequestSettings = useMemo(
+    () => ({ timeoutMs: Math.max(1, aiTimeoutSeconds) * 1000, retries: Math.max(0, Math.floor(aiRetries)) }),
+    [aiTimeoutSeconds, aiRetries],
+  )
+
+  const aiProviderImpl = AI_PROVIDERS[aiProvider]
+  // In proxy mode the key typed into this page is never sent anywhere; the proxy adds its own.
+  const aiApiKey = aiProxy
+    ? ''
+    : (aiProvider === 'gemini' ? geminiApiKey : aiProvider === 'qwen' ? qwenApiKey : openaiApiKey).trim()
+  const aiModel =
+    aiProvider === 'gemini'
+      ? geminiModel
+      : aiProvider === 'qwen'
+        ? qwenModel
+        : aiProvider === 'mock'
+          ? mockModel
+          : openaiModel.trim()
+  const [aiPrivacyMode, setAiPrivacyMode] = useState(() => localStorage.getItem('aiPrivacyMode') === '1')
+  const [aiOutboundLog, setAiOutboundLog] = useState<AiOutboundLogEntry[]>([])
+  const [aiUsageLog, setAiUsageLog] = useState<AiUsageRecord[]>(() => parseAiUsageLog(localStorage.getItem('aiUsageLog')))
+  const [aiMonthlyBudget, setAiMonthlyBudget] = useState(() => Math.max(0, Number(localStorage.getItem('aiMonthlyBudget')) || 0))
+  const aiMonthCost = useMemo(() => aiUsageMonthCost(aiUsageLog, new Date()), [aiUsageLog])
+  const aiMonthUnpriced = useMemo(() => aiUsageMonthUnpriced(aiUsageLog, new Date()), [aiUsageLog])
+  // Empty when calls may go ahead; otherwise the message to show instead of calling
+  const aiBudgetBlock = aiBudgetBlockReason(aiMonthlyBudget, aiMonthCost, aiProvider, aiModel)
+  const aiUsageSummary = useMemo(() => summarizeAiUsage(aiUsageLog), [aiUsageLog])
+  const usageClassNameRef = useRef(className)
+  // Stable, so model-list refreshes do not re-run when the class name is edited
+  const recordAiCall = useCallback(
+    (report: AiCallReport) =>
+      setAiUsageLog((prev) =>
+        appendAiUsageRecord(
+          prev,
+          {
+            ...report,
+            id: uid(),
+            time: Date.now(),
+            className: usageClassNameRef.current.trim() || '（未填写）',
+            costCny: estimateAiCostCny(report),
+          },
+          new Date(),
+        ),
+      ),
+    [],
+  )
+  const [aiPromptOverrides, setAiPromptOverrides] = useState<AiPromptOverrides>(() =>
+    parseAiPromptOverrides(localStorage.getItem('aiPromptOverrides')),
+  )
+  const [aiPromptEditorId, setAiPromptEditorId] = useState<AiPromptTemplateId>('score-matching')
+  const [aiPromptEditorOpen, setAiPromptEditorOpen] = useState(false)
+  const aiConfig = useMemo<AiProviderConfig>(
+    () => ({
+      apiKey: aiApiKey,
+      model: aiModel,
+      baseUrl: openaiBaseUrl.trim(),
+      proxy: aiProxy,
+      ...aiRequestSettings,
+      onCall: recordAiCall,
+      onRequest: (req) =>
+        setAiOutboundLog((prev) =>
+          [{ ...req, id: uid(), time: Date.now(), providerLabel: aiProviderImpl.label, pseudonymized: aiPrivacyMode }, ...prev].slice(
+            0,
+            AI_OUTBOUND_LOG_LIMIT,
+          ),
+        ),
+    }),
+    [aiApiKey, aiModel, openaiBaseUrl, aiProxy, aiRequestSettings, aiProviderImpl, aiPrivacyMode, recordAiCall],
+  )
+  const aiReady = Boolean((aiProxy || aiApiKey || aiProviderImpl.keyOptional) && aiModel)
+  const [rosterImport, setRosterImport] = useState<{
+    fileName: string
+    rows: SheetRows
+    mapping: RosterColumnMapping
+  } | null>(null)
+  const [rosterImportClass, setRosterImportClass] = useState('')
+  const [rosterImportMode, setRosterImportMode] = useState<GeminiRosterMode>('append')
+  const [rosterImportStatus, setRosterImportStatus] = useState('')
+  const rosterImportItems = useMemo(
+    () => (rosterImport ? rosterItemsFromRows(rosterImport.rows, rosterImport.mapping, rosterImportClass) : []),
+    [rosterImport, rosterImportClass],
+  )
+  const rosterImportColumns = useMemo(() => {
+    if (!rosterImport) return []
+    const width = Math.max(0, ...rosterImport.rows.map((r) => r.length))
+    return Array.from({ length: width }, (_, col) => ({
+      col,
+      label: sheetColumnLabel(rosterImport.rows, rosterImport.mapping, col),
+    }))
+  }, [rosterImport])
+  const rosterImportClasses = useMemo(
+    () => (rosterImport ? rosterClassesFromRows(rosterImport.rows, rosterImport.mapping) : []),
+    [rosterImport],
+  )
+
   const [geminiInputText, setGeminiInputText] = useState('')
   const [geminiMode, setGeminiMode] = useState<GeminiRosterMode>('append')
-  const [geminiPreview, setGeminiPreview] = useState<string[]>([])
+  const [geminiPreview, setGeminiPreview] = useState<RosterItem[]>([])
+  const [photoMode, setPhotoMode] = useState<AiPhotoMode>('roster')
+  // Qwen's text models cannot see images; photos go to a Qwen-VL model instead
+  const [qwenVisionModel, setQwenVisionModel] = useState(() => localStorage.getItem('qwenVisionModel') || 'qwen-vl-plus')
   const [geminiStatus, setGeminiStatus] = useState('')
   const [geminiLoading, setGeminiLoading] = useState(false)
   const geminiAbortRef = useRef<AbortController | null>(null)
+  // Photo import has its own controller so it never cancels a running score match (or is cancelled by one)
+  const photoAbortRef = useRef<AbortController | null>(null)
   const [useGeminiForMatching, setUseGeminiForMatching] = useState(() => {
     const saved = localStorage.getItem('useGeminiForMatching')
     return saved ? saved === '1' : true
   })
   const [geminiMatchLoading, setGeminiMatchLoading] = useState(false)
   const [geminiMatchStatus, setGeminiMatchStatus] = useState('')
+  const [geminiMatchProgress, setGeminiMatchProgress] = useState<{ done: number; total: number } | null>(null)
+  const [aiRejectedItems, setAiRejectedItems] = useState<AiScoreRejection[]>([])
+  const [commentDraftLoading, setCommentDraftLoading] = useState(false)
+  const [commentDraftStatus, setCommentDraftStatus] = useState('')
+  const [commentDraftProgress, setCommentDraftProgress] = useState<{ done: number; total: number } | null>(null)
+  const commentAbortRef = useRef<AbortController | null>(null)
+  const [aiReview, setAiReview] = useState<{
+    rows: AiReviewRow[]
+    edits: ResolvedDictationEdit[]
+    promptVersion: string
+  } | null>(null)
 
   // AI realtime roster via voice
   const [rosterVoiceOn, setRosterVoiceOn] = useState(false)
@@ -892,7 +409,8 @@ function App() {
   const [rosterVoiceAutoApply, setRosterVoiceAutoApply] = useState(true)
   const [rosterVoiceNewNames, setRosterVoiceNewNames] = useState<string[]>([])
   const rosterVoiceSnapshotRef = useRef<string>('')
-  const rosterRecognitionRef = useRef<SpeechRecognition | null>(null)
+  const [rosterVoiceReconnect, setRosterVoiceReconnect] = useState<number | null>(null)
+  const rosterRecognitionRef = useRef<RecognitionSession | null>(null)
   const rosterAiTimerRef = useRef<number | null>(null)
   const rosterAiAbortRef = useRef<AbortController | null>(null)
   const rosterAiLastHashRef = useRef<string>('')
@@ -900,35 +418,247 @@ function App() {
   const rosterTextRef = useRef(rosterText)
   const rosterVoiceNewNamesRef = useRef<string[]>([])
   const rosterVoiceAutoApplyRef = useRef(rosterVoiceAutoApply)
-  const geminiKeyRef = useRef(geminiApiKey)
-  const geminiModelRef = useRef(geminiModel)
-  const qwenKeyRef = useRef(qwenApiKey)
-  const qwenModelRef = useRef(qwenModel)
-  const aiProviderRef = useRef<AiProvider>(aiProvider)
+  const aiSettingsRef = useRef({
+    provider: aiProviderImpl,
+    config: aiConfig,
+    privacyMode: aiPrivacyMode,
+    promptOverrides: aiPromptOverrides,
+    budgetBlock: aiBudgetBlock,
+  })
 
   const [isRecording, setIsRecording] = useState(false)
+  // Consecutive failures while the recording session restarts recognition; null while listening
+  const [recordingReconnect, setRecordingReconnect] = useState<number | null>(null)
   const [status, setStatus] = useState<string>('')
   const [finalText, setFinalText] = useState('')
+  // Updated together with finalText: a "不对" can arrive before React re-renders
+  const finalTextRef = useRef('')
   const [interimText, setInterimText] = useState('')
+  // Final utterances the recognizer was unsure about; their parsed rows are flagged in the live preview
+  const [lowConfidenceUtterances, setLowConfidenceUtterances] = useState<string[]>([])
+  const [readBackConfirm, setReadBackConfirm] = useState(() => localStorage.getItem('readBackConfirm') === '1')
+  const [readingBack, setReadingBack] = useState(false)
+  const [readBackStatus, setReadBackStatus] = useState('')
+  const readBackConfirmRef = useRef(readBackConfirm)
+  // The utterance just read back and where it starts in finalText, so a "不对" reply removes exactly that text
+  const lastReadBackRef = useRef<{ text: string; start: number; lowConfidence: boolean } | null>(null)
+  const speakingCountRef = useRef(0)
+
+  // Roster-order dictation
+  const [guidedMode, setGuidedMode] = useState(() => localStorage.getItem('guidedMode') === '1')
+  const [guidedOrder, setGuidedOrder] = useState<GuidedOrder>(() => {
+    const saved = localStorage.getItem('guidedOrder')
+    return saved === 'pending' || saved === 'custom' ? saved : 'roster'
+  })
+  const [guidedCustomOrder, setGuidedCustomOrder] = useState(() => localStorage.getItem('guidedCustomOrder') || '')
+  const [guidedAnnounce, setGuidedAnnounce] = useState(() => localStorage.getItem('guidedAnnounce') !== '0')
+  const [guidedRun, setGuidedRun] = useState<GuidedRun | null>(null)
+  const [guidedStatus, setGuidedStatus] = useState('')
+  // Updated together with guidedRun: replies can arrive before React re-renders
+  const guidedRunRef = useRef<GuidedRun | null>(null)
   const [entries, setEntries] = useState<Entry[]>([])
 
-  const recognitionRef = useRef<SpeechRecognition | null>(null)
+  // Gradebook (IndexedDB): the fields above belong to the currently open assignment
+  const [assignmentId, setAssignmentId] = useState<string | null>(null)
+  const [assignments, setAssignments] = useState<AssignmentRecord[]>([])
+  const [gradebookStatus, setGradebookStatus] = useState('')
+  const assignmentCreatedAtRef = useRef(Date.now())
+  const lastSavedSnapshotRef = useRef('')
+  const pendingSaveRef = useRef<{ record: AssignmentRecord; snapshot: string } | null>(null)
+  const saveTimerRef = useRef<number | undefined>(undefined)
+  const assignmentIdRef = useRef(assignmentId)
+
+  const recognitionRef = useRef<RecognitionSession | null>(null)
+  // Read by the recognition session when re-ranking hypotheses, which outlives a render
+  const dictationContextRef = useRef({ roster, gradingScale })
+
+  const [speechEngineId, setSpeechEngineId] = useState<SpeechEngineId>(() => {
+    const saved = localStorage.getItem('speechEngine')
+    return isSpeechEngineId(saved) ? saved : 'web-speech'
+  })
+  const [localAsrModuleUrl, setLocalAsrModuleUrl] = useState(
+    () => localStorage.getItem('localAsrModuleUrl') || '',
+  )
+  const [speechReplay, setSpeechReplay] = useState<({ fileName: string } & SpeechReplayScript) | null>(null)
 
-  const supported = useMemo(() => {
-    return Boolean(window.SpeechRecognition || window.webkitSpeechRecognition)
-  }, [])
+  const speechEngine = useMemo(() => {
+    if (speechEngineId === 'local-whisper') return createLocalWhisperEngine(localAsrModuleUrl.trim())
+    if (speechEngineId === 'file-replay') return createFileReplayEngine(speechReplay?.steps ?? [])
+    return createWebSpeechEngine()
+  }, [speechEngineId, localAsrModuleUrl, speechReplay])
+  const speechUnavailable = speechEngine.unavailableReason
 
   const liveText = (finalText + ' ' + interimText).trim()
-  const parsedLive = useMemo(() => parsePairsFromText(liveText, roster), [liveText, roster])
+  const pendingStudents = useMemo(() => pendingRosterStudents(roster, entries), [roster, entries])
+  const statusCounts = useMemo(() => {
+    const counts: Record<EntryStatus, number> = { graded: 0, missing: 0, excused: 0, late: 0 }
+    for (const e of entries) {
+      if (!isEntryResolved(e)) continue
+      counts[e.status && e.status !== 'graded' ? e.status : 'graded'] += 1
+    }
+    return counts
+  }, [entries])
+
+  const scoreStats = useMemo(() => computeScoreStats(entries, gradingScale), [entries, gradingScale])
+
+  const dictationLive = useMemo(
+    () => applyDictationEdits(parseDictation(liveText, roster, gradingScale)),
+    [liveText, roster, gradingScale],
+  )
 
   useEffect(() => {
     localStorage.setItem('rosterText', rosterText)
   }, [rosterText])
 
+  useEffect(() => {
+    localStorage.setItem('className', className)
+  }, [className])
+
+  useEffect(() => {
+    if (assignmentId) localStorage.setItem('currentAssignmentId', assignmentId)
+  }, [assignmentId])
+
+  const applyAssignmentRecord = useCallback((rec: AssignmentRecord) => {
+    assignmentCreatedAtRef.current = rec.createdAt
+    lastSavedSnapshotRef.current = JSON.stringify([
+      rec.className,
+      rec.date,
+      rec.homeworkTitle,
+      rec.gradingScaleId,
+      rec.customMaxScore,
+      rec.entries,
+    ])
+    setClassName(rec.className)
+    setDate(rec.date)
+    setHomeworkTitle(rec.homeworkTitle)
+    setGradingScaleId(rec.gradingScaleId)
+    setCustomMaxScore(rec.customMaxScore)
+    setEntries(rec.entries)
+    setAssignmentId(rec.id)
+  }, [])
+
+  // Reopen the last assignment on startup
+  useEffect(() => {
+    let cancelled = false
+    void (async () => {
+      try {
+        const list = await gradebookListAssignments()
+        if (cancelled) return
+        setAssignments(list)
+        const lastId = localStorage.getItem('currentAssignmentId')
+        const last = lastId ? list.find((a) => a.id === lastId) : undefined
+        if (last) {
+          applyAssignmentRecord(last)
+          setGradebookStatus(`已恢复上次的作业：${assignmentLabel(last)}`)
+          return
+        }
+      } catch (e) {
+        if (cancelled) return
+        setGradebookStatus((e as Error).message || '读取作业记录失败。')
+      }
+      assignmentCreatedAtRef.current = Date.now()
+      setAssignmentId(uid())
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [applyAssignmentRecord])
+
+  // Writes the pending auto-save now instead of waiting for the debounce
+  const flushPendingSave = useCallback(async () => {
+    window.clearTimeout(saveTimerRef.current)
+    const pending = pendingSaveRef.current
+    pendingSaveRef.current = null
+    if (!pending) return
+    const { record, snapshot } = pending
+    try {
+      await gradebookPutAssignment(record)
+      if (assignmentIdRef.current === record.id) lastSavedSnapshotRef.current = snapshot
+      setAssignments((prev) => [record, ...prev.filter((a) => a.id !== record.id)])
+      setGradebookStatus(`已自动保存（${new Date(record.updatedAt).toLocaleTimeString()}）`)
+    } catch (e) {
+      setGradebookStatus((e as Error).message || '自动保存失败。')
+    }
+  }, [])
+
+  const discardPendingSave = () => {
+    window.clearTimeout(saveTimerRef.current)
+    pendingSaveRef.current = null
+  }
+
+  useEffect(() => {
+    assignmentIdRef.current = assignmentId
+  }, [assignmentId])
+
+  // Auto-save the open assignment (debounced); empty new assignments are not stored
+  useEffect(() => {
+    pendingSaveRef.current = null
+    if (!assignmentId) return
+    const snapshot = JSON.stringify([className, date, homeworkTitle, gradingScaleId, customMaxScore, entries])
+    if (snapshot === lastSavedSnapshotRef.current) return
+    if (!lastSavedSnapshotRef.current && entries.length === 0) return
+    pendingSaveRef.current = {
+      snapshot,
+      record: {
+        id: assignmentId,
+        className,
+        date,
+        homeworkTitle,
+        gradingScaleId,
+        customMaxScore,
+        entries,
+        createdAt: assignmentCreatedAtRef.current,
+        updatedAt: Date.now(),
+      },
+    }
+    saveTimerRef.current = window.setTimeout(() => void flushPendingSave(), 400)
+    return () => window.clearTimeout(saveTimerRef.current)
+  }, [assignmentId, className, date, homeworkTitle, gradingScaleId, customMaxScore, entries, flushPendingSave])
+
+  // Don't lose the last edits when the tab is closed or reloaded inside the debounce window
+  useEffect(() => {
+    const flush = () => void flushPendingSave()
+    window.addEventListener('pagehide', flush)
+    window.addEventListener('beforeunload', flush)
+    return () => {
+      window.removeEventListener('pagehide', flush)
+      window.removeEventListener('beforeunload', flush)
+    }
+  }, [flushPendingSave])
+
+  const duplicateAssignment = useMemo(
+    () =>
+      assignments.find(
+        (a) => a.id !== assignmentId && a.className === className && a.date === date && a.homeworkTitle === homeworkTitle,
+      ),
+    [assignments, assignmentId, className, date, homeworkTitle],
+  )
+
+  useEffect(() => {
+    localStorage.setItem('gradingScaleId', gradingScaleId)
+    localStorage.setItem('customMaxScore', String(customMaxScore))
+  }, [gradingScaleId, customMaxScore])
+
   useEffect(() => {
     rosterTextRef.current = rosterText
   }, [rosterText])
 
+  useEffect(() => {
+    dictationContextRef.current = { roster, gradingScale }
+  }, [roster, gradingScale])
+
+  useEffect(() => {
+    readBackConfirmRef.current = readBackConfirm
+    localStorage.setItem('readBackConfirm', readBackConfirm ? '1' : '0')
+  }, [readBackConfirm])
+
+  useEffect(() => {
+    localStorage.setItem('guidedMode', guidedMode ? '1' : '0')
+    localStorage.setItem('guidedOrder', guidedOrder)
+    localStorage.setItem('guidedCustomOrder', guidedCustomOrder)
+    localStorage.setItem('guidedAnnounce', guidedAnnounce ? '1' : '0')
+  }, [guidedMode, guidedOrder, guidedCustomOrder, guidedAnnounce])
+
   useEffect(() => {
     rosterVoiceNewNamesRef.current = rosterVoiceNewNames
   }, [rosterVoiceNewNames])
@@ -939,24 +669,85 @@ function App() {
 
   useEffect(() => {
     localStorage.setItem('aiProvider', aiProvider)
-    aiProviderRef.current = aiProvider
   }, [aiProvider])
 
   useEffect(() => {
-    geminiKeyRef.current = geminiApiKey
-  }, [geminiApiKey])
+    aiSettingsRef.current = {
+      provider: aiProviderImpl,
+      config: aiConfig,
+      privacyMode: aiPrivacyMode,
+      promptOverrides: aiPromptOverrides,
+      budgetBlock: aiBudgetBlock,
+    }
+  }, [aiProviderImpl, aiConfig, aiPrivacyMode, aiPromptOverrides, aiBudgetBlock])
+
+  useEffect(() => {
+    usageClassNameRef.current = className
+  }, [className])
+
+  useEffect(() => {
+    localStorage.setItem('aiUsageLog', JSON.stringify(aiUsageLog))
+  }, [aiUsageLog])
+
+  useEffect(() => {
+    localStorage.setItem('aiMonthlyBudget', String(aiMonthlyBudget))
+  }, [aiMonthlyBudget])
+
+  useEffect(() => {
+    localStorage.setItem('aiPromptOverrides', JSON.stringify(aiPromptOverrides))
+  }, [aiPromptOverrides])
 
   useEffect(() => {
-    geminiModelRef.current = geminiModel
-  }, [geminiModel])
+    localStorage.setItem('aiPrivacyMode', aiPrivacyMode ? '1' : '0')
+  }, [aiPrivacyMode])
 
   useEffect(() => {
-    qwenKeyRef.current = qwenApiKey
-  }, [qwenApiKey])
+    localStorage.setItem('openaiBaseUrl', openaiBaseUrl.trim())
+  }, [openaiBaseUrl])
 
   useEffect(() => {
-    qwenModelRef.current = qwenModel
-  }, [qwenModel])
+    localStorage.setItem('aiTransport', aiTransport)
+  }, [aiTransport])
+
+  useEffect(() => {
+    localStorage.setItem('aiProxyUrl', aiProxyUrl.trim())
+  }, [aiProxyUrl])
+
+  useEffect(() => {
+    localStorage.setItem('aiTimeoutSeconds', String(aiTimeoutSeconds))
+    localStorage.setItem('aiRetries', String(aiRetries))
+  }, [aiTimeoutSeconds, aiRetries])
+
+  useEffect(() => {
+    localStorage.setItem('aiChunkConcurrency', String(aiChunkConcurrency))
+  }, [aiChunkConcurrency])
+
+  useEffect(() => {
+    localStorage.setItem('speechEngine', speechEngineId)
+    localStorage.setItem('localAsrModuleUrl', localAsrModuleUrl.trim())
+  }, [speechEngineId, localAsrModuleUrl])
+
+  // Sessions are bound to the engine they were created with; drop them when it changes (and on unmount)
+  useEffect(() => {
+    return () => {
+      recognitionRef.current?.abort()
+      recognitionRef.current = null
+      rosterRecognitionRef.current?.abort()
+      rosterRecognitionRef.current = null
+    }
+  }, [speechEngine])
+
+  useEffect(() => {
+    localStorage.setItem('openaiModel', openaiModel.trim())
+  }, [openaiModel])
+
+  useEffect(() => {
+    localStorage.setItem('mockModel', mockModel)
+  }, [mockModel])
+
+  useEffect(() => {
+    localStorage.setItem('qwenVisionModel', qwenVisionModel.trim())
+  }, [qwenVisionModel])
 
   useEffect(() => {
     localStorage.setItem('geminiModelChoice', geminiModelChoice)
@@ -980,8 +771,8 @@ function App() {
 
   const refreshGeminiModels = useCallback(async () => {
     setGeminiModelsStatus('')
-    const key = geminiApiKey.trim()
-    if (!key) {
+    const key = aiProxy ? '' : geminiApiKey.trim()
+    if (!key && !aiProxy) {
       setGeminiModelsStatus('请先填写 Gemini API Key 后再获取模型列表。')
       return
     }
@@ -990,7 +781,10 @@ function App() {
     geminiModelsAbortRef.current = ac
     setGeminiModelsLoading(true)
     try {
-      const models = await geminiListModels({ apiKey: key, signal: ac.signal })
+      const config: AiProviderConfig = { apiKey: key, model: '', baseUrl: '', proxy: aiProxy, ...aiRequestSettings, onCall: recordAiCall }
+      const models = await trackAiCall(config, { providerId: 'gemini', purpose: 'model-listing' }, () =>
+        geminiListModels({ config, signal: ac.signal }),
+      )
       const usable = models
         .filter((m) => (m.supportedGenerationMethods ?? []).includes('generateContent'))
         .sort((a, b) => geminiModelDisplayName(a.name).localeCompare(geminiModelDisplayName(b.name), 'en'))
@@ -1017,157 +811,409 @@ function App() {
       }
     } catch (e) {
       if (isAbortError(e)) return
-      setGeminiModelsStatus((e as Error).message || '获取模型列表失败。')
+      setGeminiModelsStatus(describeAiError(e, '获取模型列表失败。'))
     } finally {
       setGeminiModelsLoading(false)
     }
-  }, [geminiApiKey, geminiModelChoice])
+  }, [geminiApiKey, geminiModelChoice, aiProxy, aiRequestSettings, recordAiCall])
 
-  // Best-effort auto refresh when key changes
+  // Best-effort auto refresh when key changes (proxy mode refreshes on demand only)
   useEffect(() => {
-    if (!geminiApiKey.trim()) return
+    if (aiTransport === 'proxy' || !geminiApiKey.trim()) return
     void refreshGeminiModels()
-  }, [geminiApiKey, refreshGeminiModels])
+  }, [aiTransport, geminiApiKey, refreshGeminiModels])
+
+  const refreshOpenaiModels = async () => {
+    const listModels = AI_PROVIDERS.openai.listModels
+    if (!listModels) return
+    setOpenaiModelsStatus('')
+    setOpenaiModelsLoading(true)
+    try {
+      const config: AiProviderConfig = {
+        apiKey: aiProxy ? '' : openaiApiKey.trim(),
+        model: '',
+        baseUrl: openaiBaseUrl.trim(),
+        proxy: aiProxy,
+        ...aiRequestSettings,
+        onCall: recordAiCall,
+      }
+      const models = await trackAiCall(config, { providerId: 'openai', purpose: 'model-listing' }, () =>
+        listModels({ config }),
+      )
+      setOpenaiModels(models)
+      setOpenaiModelsStatus(models.length ? `已加载 ${models.length} 个模型。` : '服务端未返回任何模型，请手动填写模型名称。')
+      if (models.length && !openaiModel.trim()) setOpenaiModel(models[0])
+    } catch (e) {
+      setOpenaiModelsStatus(describeAiError(e, '获取模型列表失败。'))
+    } finally {
+      setOpenaiModelsLoading(false)
+    }
+  }
+
+  // The mock's model list comes from its own /models endpoint, like a real server's would
+  const refreshMockModels = useCallback(async () => {
+    const listModels = AI_PROVIDERS.mock.listModels
+    if (!listModels) return
+    const config: AiProviderConfig = {
+      apiKey: '',
+      model: '',
+      baseUrl: '',
+      proxy: null,
+      ...aiRequestSettings,
+      onCall: recordAiCall,
+    }
+    try {
+      const models = await trackAiCall(config, { providerId: 'mock', purpose: 'model-listing' }, () => listModels({ config }))
+      setMockModels(models)
+      setMockModelsStatus(`已加载 ${models.length} 个模拟模型。`)
+    } catch (e) {
+      setMockModelsStatus(describeAiError(e, '获取模拟模型列表失败。'))
+    }
+  }, [aiRequestSettings, recordAiCall])
+
+  useEffect(() => {
+    if (aiProvider === 'mock' && !mockModels.length) void refreshMockModels()
+  }, [aiProvider, mockModels.length, refreshMockModels])
 
   useEffect(() => {
     if (!rememberAiKey) {
       localStorage.removeItem('geminiApiKey')
       localStorage.removeItem('qwenApiKey')
+      localStorage.removeItem('openaiApiKey')
       return
     }
     if (geminiApiKey.trim()) localStorage.setItem('geminiApiKey', geminiApiKey.trim())
     if (qwenApiKey.trim()) localStorage.setItem('qwenApiKey', qwenApiKey.trim())
-  }, [geminiApiKey, qwenApiKey, rememberAiKey])
+    if (openaiApiKey.trim()) localStorage.setItem('openaiApiKey', openaiApiKey.trim())
+  }, [geminiApiKey, qwenApiKey, openaiApiKey, rememberAiKey])
 
   useEffect(() => {
     return () => {
-      recognitionRef.current?.abort()
-      recognitionRef.current = null
       geminiAbortRef.current?.abort()
       geminiAbortRef.current = null
+      photoAbortRef.current?.abort()
+      photoAbortRef.current = null
       geminiModelsAbortRef.current?.abort()
       geminiModelsAbortRef.current = null
-      rosterRecognitionRef.current?.abort()
-      rosterRecognitionRef.current = null
       rosterAiAbortRef.current?.abort()
       rosterAiAbortRef.current = null
       if (rosterAiTimerRef.current) window.clearTimeout(rosterAiTimerRef.current)
     }
   }, [])
 
-  const ensureRecognition = () => {
-    if (recognitionRef.current) return recognitionRef.current
-    const Ctor = window.SpeechRecognition ?? window.webkitSpeechRecognition
-    if (!Ctor) return null
-
-    const rec = new Ctor()
-    rec.lang = 'zh-CN'
-    rec.continuous = true
-    rec.interimResults = true
-    rec.maxAlternatives = 1
-
-    rec.onresult = (ev) => {
-      let interim = ''
-      let appendedFinal = ''
-      for (let i = ev.resultIndex; i < ev.results.length; i++) {
-        const res = ev.results[i]
-        const transcript = res[0]?.transcript ?? ''
-        if (res.isFinal) appendedFinal += transcript
-        else interim += transcript
-      }
-      if (appendedFinal) setFinalText((prev) => (prev ? `${prev} ${appendedFinal}` : appendedFinal))
-      setInterimText(interim)
-    }
+  // Recognition pauses while speaking so the read-back is not transcribed as dictation
+  const speakWhilePaused = async (text: string) => {
+    speakingCountRef.current++
+    recognitionRef.current?.pause()
+    setReadingBack(true)
+    await speakText(text)
+    // Read-backs can queue up (speechSynthesis plays them in order); resume after the last one
+    if (--speakingCountRef.current > 0) return
+    setReadingBack(false)
+    recognitionRef.current?.resume()
+  }
 
-    rec.onerror = (ev) => {
-      setStatus(`识别错误：${ev.error}${ev.message ? `（${ev.message}）` : ''}`)
-      setIsRecording(false)
-    }
+  const updateFinalText = (next: string) => {
+    finalTextRef.current = next
+    setFinalText(next)
+  }
 
-    rec.onend = () => {
-      setIsRecording(false)
-    }
+  /** Append a final utterance to the transcript and return the offset it starts at. */
+  const appendFinalText = (text: string) => {
+    const prev = finalTextRef.current
+    updateFinalText(prev ? `${prev} ${text}` : text)
+    return prev ? prev.length + 1 : 0
+  }
 
-    recognitionRef.current = rec
-    return rec
+  const readBackUtterance = (utterance: { text: string; start: number; lowConfidence: boolean }) => {
+    const { roster, gradingScale } = dictationContextRef.current
+    const speech = readBackText(parseDictation(utterance.text, roster, gradingScale), gradingScale)
+    lastReadBackRef.current = speech ? utterance : null
+    if (speech) void speakWhilePaused(speech)
   }
 
-  const ensureRosterRecognition = () => {
-    if (rosterRecognitionRef.current) return rosterRecognitionRef.current
-    const Ctor = window.SpeechRecognition ?? window.webkitSpeechRecognition
-    if (!Ctor) return null
-
-    const rec = new Ctor()
-    rec.lang = 'zh-CN'
-    rec.continuous = true
-    rec.interimResults = true
-    rec.maxAlternatives = 1
-
-    rec.onresult = (ev) => {
-      let interim = ''
-      let appendedFinal = ''
-      for (let i = ev.resultIndex; i < ev.results.length; i++) {
-        const res = ev.results[i]
-        const transcript = res[0]?.transcript ?? ''
-        if (res.isFinal) appendedFinal += transcript
-        else interim += transcript
-      }
-      if (appendedFinal) setRosterVoiceFinal((prev) => (prev ? `${prev} ${appendedFinal}` : appendedFinal))
-      setRosterVoiceInterim(interim)
+  const rejectReadBack = () => {
+    const utterance = lastReadBackRef.current
+    lastReadBackRef.current = null
+    if (!utterance) {
+      setReadBackStatus('“不对”只能删除刚朗读确认的那一句，请改用“撤销上一个”或在登记表中修改。')
+      return
+    }
+    const prev = finalTextRef.current
+    const end = utterance.start + utterance.text.length
+    if (prev.slice(utterance.start, end) !== utterance.text) {
+      setReadBackStatus(`没能删除“${utterance.text}”：转写内容已变化，请改用“撤销上一个”或在登记表中修改。`)
+      void speakWhilePaused('没能删除')
+      return
     }
+    updateFinalText([prev.slice(0, utterance.start).trimEnd(), prev.slice(end).trimStart()].filter(Boolean).join(' '))
+    if (utterance.lowConfidence) {
+      // Only this utterance's flag goes; an identical earlier utterance keeps its own
+      setLowConfidenceUtterances((list) => {
+        const i = list.lastIndexOf(utterance.text)
+        return i < 0 ? list : [...list.slice(0, i), ...list.slice(i + 1)]
+      })
+    }
+    setReadBackStatus(`已删除：${utterance.text}`)
+    void speakWhilePaused('已删除')
+  }
 
-    rec.onerror = (ev) => {
-      setRosterVoiceStatus(`语音识别错误：${ev.error}${ev.message ? `（${ev.message}）` : ''}`)
-      setRosterVoiceOn(false)
+  const updateGuidedRun = (next: GuidedRun | null) => {
+    guidedRunRef.current = next
+    setGuidedRun(next)
+  }
+
+  const announceGuidedStudent = (run: GuidedRun, prefix = '') => {
+    if (!run.announce) return
+    const student = run.students[run.index]
+    void speakWhilePaused(`${prefix}${student ? student.name : '全部点名完毕'}`)
+  }
+
+  const handleGuidedReply = (text: string) => {
+    const run = guidedRunRef.current
+    const student = run?.students[run.index]
+    if (!run || !student) return
+    const { gradingScale } = dictationContextRef.current
+    const reply = parseGuidedReply(text, gradingScale)
+    if (!reply) {
+      setGuidedStatus(`没听清“${text}”：请只念成绩，或说“跳过”“缺交”“上一个”。`)
+      if (run.announce) void speakWhilePaused(`请再说一遍，${student.name}`)
+      return
+    }
+    if (reply.kind === 'previous') {
+      const back = { ...run, index: Math.max(0, run.index - 1) }
+      updateGuidedRun(back)
+      setGuidedStatus(`回到：${back.students[back.index].name}`)
+      announceGuidedStudent(back)
+      return
     }
 
-    rec.onend = () => {
-      setRosterVoiceOn(false)
+    let done: string
+    if (reply.kind === 'score') {
+      const record = { ...student, score: reply.score, status: reply.late ? ('late' as const) : undefined }
+      setEntries((prev) => mergeScoresIntoEntries(prev, [record]))
+      done = `${student.name}，${reply.late ? '补交' : ''}${spokenGrade(reply.score, gradingScale)}`
+    } else if (reply.kind === 'status') {
+      setEntries((prev) => setEntryStatus(prev, student, reply.status))
+      done = `${student.name}，${ENTRY_STATUS_LABELS[reply.status]}`
+    } else {
+      done = `${student.name}，跳过`
     }
+    const next = { ...run, index: run.index + 1 }
+    updateGuidedRun(next)
+    setGuidedStatus(next.index < next.students.length ? done : `${done}。已点完全部 ${next.students.length} 名学生。`)
+    announceGuidedStudent(next, readBackConfirmRef.current ? `${done}。` : '')
+    if (next.index >= next.students.length) recognitionRef.current?.stop()
+  }
 
-    rosterRecognitionRef.current = rec
-    return rec
+  const cancelReadBack = () => {
+    lastReadBackRef.current = null
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel()
+  }
+
+  const ensureRecognition = () => {
+    if (recognitionRef.current) return recognitionRef.current
+    if (speechUnavailable) return null
+
+    recognitionRef.current = createRecognitionSession({
+      engine: speechEngine,
+      lang: 'zh-CN',
+      maxAlternatives: SPEECH_MAX_ALTERNATIVES,
+      chooseAlternative: (alternatives) => {
+        const { roster, gradingScale } = dictationContextRef.current
+        return chooseDictationAlternative(alternatives, roster, gradingScale)
+      },
+      onFinal: (text, lowConfidence) => {
+        // Guided replies go straight to the table, so they never reach the transcript parsed on save
+        if (guidedRunRef.current) {
+          handleGuidedReply(text)
+          return
+        }
+        if (readBackConfirmRef.current && READ_BACK_REJECT_RE.test(text.trim())) {
+          rejectReadBack()
+          return
+        }
+        const start = appendFinalText(text)
+        if (lowConfidence) setLowConfidenceUtterances((prev) => [...prev, text])
+        if (readBackConfirmRef.current) readBackUtterance({ text, start, lowConfidence })
+        else lastReadBackRef.current = null
+      },
+      onInterim: setInterimText,
+      onStateChange: (state, failures) => {
+        setRecordingReconnect(state === 'reconnecting' ? failures : null)
+        if (state === 'idle') setIsRecording(false)
+      },
+      onFatalError: setStatus,
+    })
+    return recognitionRef.current
+  }
+
+  const ensureRosterRecognition = () => {
+    if (rosterRecognitionRef.current) return rosterRecognitionRef.current
+    if (speechUnavailable) return null
+
+    rosterRecognitionRef.current = createRecognitionSession({
+      engine: speechEngine,
+      lang: 'zh-CN',
+      onFinal: (text) => setRosterVoiceFinal((prev) => (prev ? `${prev} ${text}` : text)),
+      onInterim: setRosterVoiceInterim,
+      onStateChange: (state, failures) => {
+        setRosterVoiceReconnect(state === 'reconnecting' ? failures : null)
+        if (state === 'idle') setRosterVoiceOn(false)
+      },
+      onFatalError: setRosterVoiceStatus,
+    })
+    return rosterRecognitionRef.current
   }
 
   const start = () => {
     setStatus('')
-    if (!supported) {
-      setStatus('当前浏览器不支持 Web Speech API（建议使用 Chrome）。')
+    if (speechUnavailable) {
+      setStatus(speechUnavailable)
       return
     }
+    let run: GuidedRun | null = null
+    if (guidedMode) {
+      const { students, unknown } = guidedStudentOrder({
+        order: guidedOrder,
+        roster,
+        entries,
+        customText: guidedCustomOrder,
+      })
+      if (!students.length) {
+        setStatus(
+          guidedOrder === 'pending' && roster.length
+            ? '花名册中的学生都已录入。'
+            : '没有可点名的学生：请先填写花名册（自定义顺序需填写学号或姓名）。',
+        )
+        return
+      }
+      run = { students, index: 0, announce: guidedAnnounce && 'speechSynthesis' in window }
+      setGuidedStatus(unknown.length ? `自定义顺序中这些行不在花名册中，已跳过：${unknown.join('、')}` : '')
+    }
     const rec = ensureRecognition()
     if (!rec) {
       setStatus('初始化语音识别失败。')
       return
     }
-    setFinalText('')
+    updateFinalText('')
     setInterimText('')
+    setLowConfidenceUtterances([])
+    setReadBackStatus('')
+    lastReadBackRef.current = null
+    updateGuidedRun(run)
     setIsRecording(true)
-    try {
-      rec.start()
-    } catch {
-      // Some browsers throw if start() called too quickly
+    if (!rec.start()) {
       setIsRecording(false)
+      updateGuidedRun(null)
       setStatus('启动识别失败：请稍后再试（或刷新页面）。')
+      return
     }
+    if (run) announceGuidedStudent(run)
   }
 
   const rosterVoiceLiveText = (rosterVoiceFinal + ' ' + rosterVoiceInterim).trim()
 
+  const aiPromptEditorTemplate = resolvePromptTemplate(aiPromptEditorId, aiPromptOverrides)
+  // Preview with what would be sent right now; only built while the editor is open
+  const aiPromptPreview = useMemo(() => {
+    if (!aiPromptEditorOpen) return ''
+    const template = resolvePromptTemplate(aiPromptEditorId, aiPromptOverrides)
+    if (aiPromptEditorId === 'comment-drafting') {
+      const sample = entries.filter((e) => e.name.trim() && isEntryResolved(e)).slice(0, AI_COMMENT_BATCH_SIZE)
+      const pseudonyms = aiPrivacyMode
+        ? pseudonymizeForAi(
+            sample.map((e) => ({ studentId: e.studentId.trim(), name: e.name.trim() })),
+            finalText.trim(),
+            gradingScale,
+          )
+        : null
+      return buildCommentDraftingPrompt({
+        template,
+        students: sample.map((e, i) => ({
+          key: String(i + 1),
+          name: pseudonyms ? pseudonyms.roster[i].name : e.name.trim(),
+          score: e.score,
+          status: entryStatusLabel(e),
+        })),
+        transcript: pseudonyms ? pseudonyms.transcript : finalText.trim(),
+        gradingScale,
+        homeworkTitle,
+      })
+    }
+    if (aiPromptEditorId === 'photo-roster' || aiPromptEditorId === 'photo-scores') {
+      return buildPhotoExtractionPrompt({
+        template,
+        roster,
+        existingNames: uniqueNames(roster.map((r) => r.name)),
+        gradingScale,
+      })
+    }
+    if (aiPromptEditorId === 'roster-extraction') {
+      return buildRosterExtractionPrompt(
+        template,
+        geminiInputText.trim() || rosterVoiceLiveText || '（粘贴的名单或语音转写）',
+        uniqueNames(roster.map((r) => r.name)),
+      )
+    }
+    const transcript = splitTranscriptIntoChunks(liveText)[0] ?? '（识别文本）'
+    const pseudonyms = aiPrivacyMode ? pseudonymizeForAi(roster, transcript, gradingScale) : null
+    return pseudonyms
+      ? buildScoreMatchingPrompt(template, pseudonyms.roster, pseudonyms.transcript, gradingScale)
+      : buildScoreMatchingPrompt(template, roster, transcript, gradingScale)
+  }, [
+    aiPromptEditorOpen,
+    aiPromptEditorId,
+    aiPromptOverrides,
+    geminiInputText,
+    rosterVoiceLiveText,
+    roster,
+    liveText,
+    aiPrivacyMode,
+    gradingScale,
+    entries,
+    finalText,
+    homeworkTitle,
+  ])
+
+  const updateAiPrompt = (patch: Partial<AiPromptOverride>) =>
+    setAiPromptOverrides((prev) => {
+      const id = aiPromptEditorId
+      const next = { name: '', text: AI_PROMPT_TEMPLATES[id].text, ...prev[id], ...patch }
+      const out = { ...prev }
+      // Back to the built-in text with no name: nothing to keep
+      if (next.text === AI_PROMPT_TEMPLATES[id].text && !next.name.trim()) delete out[id]
+      else out[id] = next
+      return out
+    })
+
+  const resetAiPrompt = () =>
+    setAiPromptOverrides((prev) => {
+      const out = { ...prev }
+      delete out[aiPromptEditorId]
+      return out
+    })
+
   const runRosterAiExtractNow = useCallback(async (text: string) => {
     setRosterVoiceStatus('')
-    const provider = aiProviderRef.current
-    const key = provider === 'gemini' ? geminiKeyRef.current.trim() : qwenKeyRef.current.trim()
-    if (!key) {
+    const { provider, config, privacyMode, promptOverrides, budgetBlock } = aiSettingsRef.current
+    if (privacyMode && provider.id !== 'mock') {
+      setRosterVoiceStatus(AI_PRIVACY_ROSTER_BLOCKED)
+      return
+    }
+    if (!config.apiKey && !config.proxy && !provider.keyOptional) {
       setRosterVoiceStatus('请先填写 AI API Key（用于 AI 实时提取姓名）。')
       return
     }
-    const model = provider === 'gemini' ? geminiModelRef.current : qwenModelRef.current
-    if (!model) {
+    if (!config.model) {
       setRosterVoiceStatus('请先选择 AI 模型。')
       return
     }
     if (!text.trim()) return
+    if (budgetBlock) {
+      setRosterVoiceStatus(budgetBlock)
+      return
+    }
 
     // Very small "hash" to avoid repeated calls when transcript doesn't change meaningfully
     const compact = text.replace(/\s+/g, '').slice(-1800)
@@ -1179,6 +1225,7 @@ function App() {
     const ac = new AbortController()
     rosterAiAbortRef.current = ac
 
+    const promptTemplate = resolvePromptTemplate('roster-extraction', promptOverrides)
     setRosterAiLoading(true)
     try {
       const existing = uniqueNames([
@@ -1187,10 +1234,10 @@ function App() {
       ])
       const names = await aiExtractRosterNamesWithExclusions({
         provider,
-        apiKey: key,
-        model,
+        config,
         inputText: text,
         existingNames: existing,
+        promptTemplate,
         signal: ac.signal,
       })
       if (!names.length) return
@@ -1204,11 +1251,11 @@ function App() {
         )
       }
       setRosterVoiceStatus(
-        `已新增 ${names.length} 人（本次累计 ${uniqueNames([...rosterVoiceNewNamesRef.current, ...names]).length} 人）。`,
+        `已新增 ${names.length} 人（本次累计 ${uniqueNames([...rosterVoiceNewNamesRef.current, ...names]).length} 人；提示词 ${promptTemplate.version}）。`,
       )
     } catch (e) {
       if (isAbortError(e)) return
-      setRosterVoiceStatus((e as Error).message || 'Gemini 提取失败。')
+      setRosterVoiceStatus(describeAiError(e, `${provider.label} 提取失败。`))
     } finally {
       setRosterAiLoading(false)
     }
@@ -1227,8 +1274,8 @@ function App() {
 
   const startRosterVoice = () => {
     setRosterVoiceStatus('')
-    if (!supported) {
-      setRosterVoiceStatus('当前浏览器不支持 Web Speech API（建议使用 Chrome）。')
+    if (speechUnavailable) {
+      setRosterVoiceStatus(speechUnavailable)
       return
     }
     if (isRecording) {
@@ -1246,9 +1293,7 @@ function App() {
     setRosterVoiceNewNames([])
     rosterAiLastHashRef.current = ''
     setRosterVoiceOn(true)
-    try {
-      rec.start()
-    } catch {
+    if (!rec.start()) {
       setRosterVoiceOn(false)
       setRosterVoiceStatus('启动识别失败：请稍后再试（或刷新页面）。')
     }
@@ -1272,13 +1317,21 @@ function App() {
   const stopAndSave = async () => {
     setStatus('')
     setGeminiMatchStatus('')
+    setAiRejectedItems([])
+    setAiReview(null)
+    cancelReadBack()
     recognitionRef.current?.stop()
     setIsRecording(false)
+    updateGuidedRun(null)
 
     const transcript = (finalText + ' ' + interimText).trim()
     if (!transcript) return
 
-    const canUseAi = Boolean(useGeminiForMatching && aiApiKey && aiModel && roster.length > 0)
+    const wantsAi = useGeminiForMatching && aiReady && roster.length > 0
+    // Matching on save falls back to the local parse when the budget stops the call
+    const canUseAi = wantsAi && !aiBudgetBlock
+    if (wantsAi && aiBudgetBlock) setGeminiMatchStatus(`${aiBudgetBlock} 已改用本地解析写入。`)
+    const aiLabel = aiProviderImpl.label
 
     if (canUseAi) {
       geminiAbortRef.current?.abort()
@@ -1286,142 +1339,354 @@ function App() {
       geminiAbortRef.current = ac
       setGeminiMatchLoading(true)
       try {
-        const pairs = await aiParseHomeworkScores({
-          provider: aiProvider,
-          apiKey: aiApiKey,
-          model: aiModel,
+        const { records: pairs, rejected, promptVersion } = await aiParseHomeworkScores({
+          provider: aiProviderImpl,
+          config: aiConfig,
           transcript,
           roster,
+          gradingScale,
+          pseudonymize: aiPrivacyMode,
+          promptTemplate: resolvePromptTemplate('score-matching', aiPromptOverrides),
+          concurrency: aiChunkConcurrency,
+          onProgress: (done, total) => setGeminiMatchProgress({ done, total }),
           signal: ac.signal,
         })
-        setEntries((prev) => {
-          const map = new Map<string, Entry>()
-          for (const e of prev) {
-            const key0 = e.studentId ? `id:${e.studentId.trim()}` : `name:${e.name.trim()}`
-            map.set(key0, e)
-          }
-          for (const p of pairs) {
-            const key0 = p.studentId ? `id:${p.studentId}` : `name:${p.name}`
-            const existing = map.get(key0)
-            if (existing) {
-              map.set(key0, { ...existing, studentId: p.studentId, name: p.name, score: p.score })
-            } else {
-              map.set(key0, { id: uid(), studentId: p.studentId, name: p.name, score: p.score })
-            }
-          }
-          return Array.from(map.values())
-        })
-        setGeminiMatchStatus(pairs.length ? `Gemini 已匹配并写入 ${pairs.length} 条记录。` : 'Gemini 未匹配到可确认的姓名-成绩（请检查花名册或转写文本）。')
-      } catch (e) {
-        if (isAbortError(e)) setGeminiMatchStatus('已取消 Gemini 匹配请求。')
-        else {
-          const msg = (e as Error).message || 'Gemini 匹配失败。'
-          setGeminiMatchStatus(
-            msg.includes('models/') && msg.includes('not found')
-              ? `${msg}（请点击“刷新模型列表”，选择当前 Key 支持的模型）`
-              : msg,
-          )
+        setAiRejectedItems(rejected)
+        const reviewRows = buildAiReviewRows(pairs, dictationLive)
+        if (reviewRows.length) {
+          // Nothing is written until the teacher has compared AI, local parse and table
+          setAiReview({ rows: reviewRows, edits: dictationLive, promptVersion })
+        } else {
+          setEntries((prev) => applyStatusEditsToEntries(prev, dictationLive))
         }
-        // Fallback to local parsing (no fuzzy mapping)
-        setEntries((prev) => {
-          const map = new Map<string, Entry>()
-          for (const e0 of prev) {
-            const key0 = e0.studentId ? `id:${e0.studentId.trim()}` : `name:${e0.name.trim()}`
-            map.set(key0, e0)
-          }
-          for (const p of parsedLive) {
-            const key0 = p.studentId ? `id:${p.studentId}` : `name:${p.name.trim()}`
-            if (!key0 || key0 === 'name:') continue
-            const existing = map.get(key0)
-            if (existing) {
-              map.set(key0, { ...existing, studentId: p.studentId, name: p.name, score: p.score })
-            } else {
-              map.set(key0, { id: uid(), studentId: p.studentId, name: p.name, score: p.score })
-            }
-          }
-          return Array.from(map.values())
-        })
+        setGeminiMatchStatus(
+          (pairs.length
+            ? `${aiLabel} 已匹配 ${pairs.length} 条记录，请在“核对 AI 匹配结果”中确认后写入。`
+            : `${aiLabel} 未匹配到可确认的姓名-成绩（请检查花名册或转写文本）。`) +
+            (rejected.length ? `另有 ${rejected.length} 条被拒绝，见下方原因。` : '') +
+            `（提示词 ${promptVersion}）`,
+        )
+      } catch (e) {
+        if (isAbortError(e)) setGeminiMatchStatus(`已取消 ${aiLabel} 匹配请求。`)
+        else setGeminiMatchStatus(`${describeAiError(e, `${aiLabel} 匹配失败。`)} 已改用本地解析写入。`)
+        // Fallback to local parsing (pinyin fuzzy matches only above the auto-accept confidence)
+        setEntries((prev) => applyDictationToEntries(prev, dictationLive))
       } finally {
         setGeminiMatchLoading(false)
+        setGeminiMatchProgress(null)
       }
       return
     }
 
-    // Local fallback: merge parsed results into editable table (no aggressive fuzzy matching)
-    setEntries((prev) => {
-      const map = new Map<string, Entry>()
-      for (const e of prev) {
-        const key0 = e.studentId ? `id:${e.studentId.trim()}` : `name:${e.name.trim()}`
-        map.set(key0, e)
-      }
-      for (const p of parsedLive) {
-        const key0 = p.studentId ? `id:${p.studentId}` : `name:${p.name.trim()}`
-        if (!key0 || key0 === 'name:') continue
-        const existing = map.get(key0)
-        if (existing) {
-          map.set(key0, { ...existing, studentId: p.studentId, name: p.name, score: p.score })
-        } else {
-          map.set(key0, { id: uid(), studentId: p.studentId, name: p.name, score: p.score })
-        }
-      }
-      return Array.from(map.values())
-    })
+    // Local fallback: merge parsed results into editable table (low-confidence fuzzy matches keep the raw name)
+    setEntries((prev) => applyDictationToEntries(prev, dictationLive))
   }
 
   const clearAll = () => {
+    cancelReadBack()
     recognitionRef.current?.abort()
     setIsRecording(false)
     setStatus('')
-    setFinalText('')
+    updateFinalText('')
     setInterimText('')
+    setLowConfidenceUtterances([])
+    setReadBackStatus('')
+    updateGuidedRun(null)
+    setGuidedStatus('')
     setEntries([])
+    setAiRejectedItems([])
+    setAiReview(null)
+    setCommentDraftStatus('')
+  }
+
+  const setAiReviewChoice = (key: string | null, choice: AiReviewChoice) =>
+    setAiReview((prev) =>
+      prev
+        ? {
+            ...prev,
+            rows: prev.rows.map((r) => {
+              if (key !== null && r.key !== key) return r
+              // "All AI" / "all local" only touch rows that have that side
+              if ((choice === 'ai' && !r.ai) || (choice === 'local' && !r.local)) return r
+              return { ...r, choice }
+            }),
+          }
+        : prev,
+    )
+
+  const commitAiReview = () => {
+    if (!aiReview) return
+    const records = aiReviewRecords(aiReview.rows, aiReview.promptVersion)
+    // "没交" / "删除" commands are applied from the local parse, as before
+    setEntries((prev) => applyStatusEditsToEntries(mergeScoresIntoEntries(prev, records), aiReview.edits))
+    setGeminiMatchStatus(`已写入 ${records.length} 条记录（跳过 ${aiReview.rows.length - records.length} 条）。`)
+    setAiReview(null)
+  }
+
+  const discardAiReview = () => {
+    if (!aiReview) return
+    // Only the AI scores are discarded; spoken "没交" / "删除" commands never depended on the AI
+    const statusEdits = aiReview.edits.filter((e) => e.kind !== 'score')
+    if (statusEdits.length) setEntries((prev) => applyStatusEditsToEntries(prev, statusEdits))
+    setAiReview(null)
+    setGeminiMatchStatus(
+      statusEdits.length
+        ? `已放弃本次 AI 匹配的成绩；语音中的 ${statusEdits.length} 条状态修改（没交/删除等）已写入登记表。`
+        : '已放弃本次 AI 匹配结果，登记表未改动。',
+    )
+  }
+
+  const openAssignment = async (id: string) => {
+    await flushPendingSave()
+    try {
+      const rec = await gradebookGetAssignment(id)
+      if (!rec) {
+        setGradebookStatus('该作业记录已不存在。')
+        setAssignments((prev) => prev.filter((a) => a.id !== id))
+        return
+      }
+      clearAll()
+      applyAssignmentRecord(rec)
+      setGradebookStatus(`已打开：${assignmentLabel(rec)}`)
+    } catch (e) {
+      setGradebookStatus((e as Error).message || '打开作业记录失败。')
+    }
+  }
+
+  const newAssignment = async () => {
+    await flushPendingSave()
+    const today = safeTodayISO()
+    try {
+      const existing = await gradebookFindAssignment({ className, date: today, homeworkTitle: '' })
+      if (existing) {
+        await openAssignment(existing.id)
+        return
+      }
+    } catch {
+      // Lookup is best-effort; fall through to a fresh assignment
+    }
+    clearAll()
+    const rec = newAssignmentRecord({ className, date: today, homeworkTitle: '', gradingScaleId, customMaxScore })
+    applyAssignmentRecord(rec)
+    lastSavedSnapshotRef.current = ''
+    setGradebookStatus('已新建作业（录入成绩后自动保存）。')
+  }
+
+  const deleteCurrentAssignment = async () => {
+    if (!assignmentId) return
+    if (!window.confirm(`确定删除作业“${assignmentLabel({ className, date, homeworkTitle })}”及其全部成绩？`)) return
+    discardPendingSave()
+    try {
+      await gradebookDeleteAssignment(assignmentId)
+      setAssignments((prev) => prev.filter((a) => a.id !== assignmentId))
+      clearAll()
+      const rec = newAssignmentRecord({ className, date: safeTodayISO(), homeworkTitle: '', gradingScaleId, customMaxScore })
+      applyAssignmentRecord(rec)
+      lastSavedSnapshotRef.current = ''
+      setGradebookStatus('已删除该作业。')
+    } catch (e) {
+      setGradebookStatus((e as Error).message || '删除作业失败。')
+    }
   }
 
   const addEmptyRow = () => setEntries((prev) => [...prev, { id: uid(), studentId: '', name: '', score: '' }])
 
-  const exportNow = () => exportToExcel({ date, homeworkTitle, entries })
+  const exportNow = () => exportToExcel({ className, date, homeworkTitle, gradingScale, entries, pending: pendingStudents })
+
+  const draftComments = async () => {
+    setCommentDraftStatus('')
+    // Comments the teacher already has (typed or edited drafts) are never overwritten
+    const targets = entries.filter((e) => e.name.trim() && isEntryResolved(e) && !e.comment?.trim())
+    if (!targets.length) {
+      setCommentDraftStatus('没有需要起草评语的学生：已有评语的不会被覆盖（清空后可重新起草）。')
+      return
+    }
+    if (!aiReady) {
+      setCommentDraftStatus('请先在“AI 辅助录入”中配置 AI 提供方与模型。')
+      return
+    }
+    if (aiBudgetBlock) {
+      setCommentDraftStatus(aiBudgetBlock)
+      return
+    }
+
+    commentAbortRef.current?.abort()
+    const ac = new AbortController()
+    commentAbortRef.current = ac
+    setCommentDraftLoading(true)
+    try {
+      const { comments, promptVersion } = await aiDraftComments({
+        provider: aiProviderImpl,
+        config: aiConfig,
+        entries: targets,
+        roster,
+        transcript: finalText.trim(),
+        gradingScale,
+        homeworkTitle,
+        pseudonymize: aiPrivacyMode,
+        promptTemplate: resolvePromptTemplate('comment-drafting', aiPromptOverrides),
+        concurrency: aiChunkConcurrency,
+        onProgress: (done, total) => setCommentDraftProgress({ done, total }),
+        signal: ac.signal,
+      })
+      setEntries((prev) =>
+        prev.map((e) => {
+          const comment = comments.get(e.id)
+          return comment && !e.comment?.trim() ? { ...e, comment, commentPromptVersion: promptVersion } : e
+        }),
+      )
+      setCommentDraftStatus(
+        `已为 ${comments.size} 名学生起草评语，可在“评语”列直接修改` +
+          (comments.size < targets.length ? `；另有 ${targets.length - comments.size} 名未返回，可重试或手动填写` : '') +
+          `（提示词 ${promptVersion}）。`,
+      )
+    } catch (e) {
+      if (isAbortError(e)) setCommentDraftStatus('已取消起草评语。')
+      else setCommentDraftStatus(describeAiError(e, `${aiProviderImpl.label} 起草评语失败。`))
+    } finally {
+      setCommentDraftLoading(false)
+      setCommentDraftProgress(null)
+    }
+  }
+
+  const cancelDraftComments = () => {
+    commentAbortRef.current?.abort()
+    commentAbortRef.current = null
+  }
+
+  const markPendingStudent = (student: RosterItem, status: EntryStatus) =>
+    setEntries((prev) => setEntryStatus(prev, student, status))
 
   const runGeminiRoster = async () => {
     setGeminiStatus('')
     setGeminiPreview([])
 
-    const key = aiApiKey
-    if (!key) {
+    if (aiPrivacyMode && aiProviderImpl.id !== 'mock') {
+      setGeminiStatus(AI_PRIVACY_ROSTER_BLOCKED)
+      return
+    }
+    if (!aiApiKey && !aiProxy && !aiProviderImpl.keyOptional) {
       setGeminiStatus('请先填写 AI API Key。')
       return
     }
+    if (!aiModel) {
+      setGeminiStatus('请先选择 AI 模型。')
+      return
+    }
     if (!geminiInputText.trim()) {
       setGeminiStatus('请粘贴原始名单/文本后再生成。')
       return
     }
+    if (aiBudgetBlock) {
+      setGeminiStatus(aiBudgetBlock)
+      return
+    }
 
     geminiAbortRef.current?.abort()
     const ac = new AbortController()
     geminiAbortRef.current = ac
 
+    const promptTemplate = resolvePromptTemplate('roster-extraction', aiPromptOverrides)
     setGeminiLoading(true)
     try {
       const names = await aiExtractRosterNamesWithExclusions({
-        provider: aiProvider,
-        apiKey: key,
-        model: aiModel,
+        provider: aiProviderImpl,
+        config: aiConfig,
         inputText: geminiInputText,
         existingNames: uniqueNames(normalizeRoster(rosterText).map((r) => r.name)),
+        promptTemplate,
         signal: ac.signal,
       })
-      setGeminiPreview(names)
-      setGeminiStatus(names.length ? `已提取 ${names.length} 个姓名，可应用到花名册。` : '未提取到姓名：请检查输入文本或换一种粘贴格式。')
+      setGeminiPreview(names.map((name) => ({ studentId: '', name })))
+      setGeminiStatus(
+        (names.length ? `已提取 ${names.length} 个姓名，可应用到花名册。` : '未提取到姓名：请检查输入文本或换一种粘贴格式。') +
+          `（提示词 ${promptTemplate.version}）`,
+      )
     } catch (e) {
       if (isAbortError(e)) {
         setGeminiStatus('已取消请求。')
       } else {
-        const msg = (e as Error).message || 'AI 请求失败。'
+        setGeminiStatus(describeAiError(e, 'AI 请求失败。'))
+      }
+    } finally {
+      setGeminiLoading(false)
+    }
+  }
+
+  const importPhoto = async (file: File) => {
+    setGeminiStatus('')
+    if (aiPrivacyMode && aiProviderImpl.id !== 'mock') {
+      setGeminiStatus(AI_PRIVACY_PHOTO_BLOCKED)
+      return
+    }
+    if (!aiReady) {
+      setGeminiStatus('请先配置 AI 提供方、API Key 与模型。')
+      return
+    }
+    if (photoMode === 'scores' && roster.length === 0) {
+      setGeminiStatus('识别成绩表需要先有花名册：请先录入或导入花名册。')
+      return
+    }
+    if (photoMode === 'scores' && (geminiMatchLoading || aiReview)) {
+      setGeminiStatus('“核对 AI 匹配结果”中还有未处理的记录：请先写入或放弃，再识别成绩表照片。')
+      return
+    }
+
+    const config = aiProvider === 'qwen' ? { ...aiConfig, model: qwenVisionModel.trim() || 'qwen-vl-plus' } : aiConfig
+    // Qwen photos go to the vision model, so that is the price the budget check needs
+    const budgetBlock = aiBudgetBlockReason(aiMonthlyBudget, aiMonthCost, aiProvider, config.model)
+    if (budgetBlock) {
+      setGeminiStatus(budgetBlock)
+      return
+    }
+
+    photoAbortRef.current?.abort()
+    const ac = new AbortController()
+    photoAbortRef.current = ac
+    const promptTemplate = resolvePromptTemplate(photoMode === 'roster' ? 'photo-roster' : 'photo-scores', aiPromptOverrides)
+    setGeminiLoading(true)
+    try {
+      const image = await readImageForAi(file)
+      if (photoMode === 'roster') {
+        const students = await aiExtractRosterFromPhoto({
+          provider: aiProviderImpl,
+          config,
+          image,
+          roster,
+          promptTemplate,
+          signal: ac.signal,
+        })
+        setGeminiPreview(students)
         setGeminiStatus(
-          msg.includes('models/') && msg.includes('not found')
-            ? `${msg}（请点击“刷新模型列表”，选择当前 Key 支持的模型）`
-            : msg,
+          (students.length
+            ? `从照片识别到 ${students.length} 名新学生，可应用到花名册。`
+            : '照片中未识别到新的学生：请确认照片清晰、名单完整，或换一张再试。') + `（提示词 ${promptTemplate.version}）`,
         )
+        return
       }
+
+      const { records, rejected, promptVersion } = await aiExtractScoresFromPhoto({
+        provider: aiProviderImpl,
+        config,
+        image,
+        roster,
+        gradingScale,
+        promptTemplate,
+        signal: ac.signal,
+      })
+      setAiRejectedItems(rejected)
+      const reviewRows = buildAiReviewRows(records, [])
+      if (reviewRows.length) setAiReview({ rows: reviewRows, edits: [], promptVersion })
+      setGeminiStatus(
+        (records.length
+          ? `从照片识别到 ${records.length} 条成绩，请在“核对 AI 匹配结果”中确认后写入。`
+          : '照片中未识别到可确认的成绩（请检查花名册或照片清晰度）。') +
+          (rejected.length ? `另有 ${rejected.length} 条被拒绝，原因见录音区下方。` : '') +
+          `（提示词 ${promptVersion}）`,
+      )
+    } catch (e) {
+      if (isAbortError(e)) setGeminiStatus('已取消请求。')
+      else setGeminiStatus(describeAiError(e, '照片识别失败。'))
     } finally {
       setGeminiLoading(false)
     }
@@ -1430,6 +1695,8 @@ function App() {
   const cancelGemini = () => {
     geminiAbortRef.current?.abort()
     geminiAbortRef.current = null
+    photoAbortRef.current?.abort()
+    photoAbortRef.current = null
   }
 
   const applyGeminiRoster = () => {
@@ -1438,7 +1705,7 @@ function App() {
       return
     }
     const current = normalizeRoster(rosterText)
-    const incoming = geminiPreview.map((name) => ({ studentId: '', name }))
+    const incoming = geminiPreview
     const next =
       geminiMode === 'replace'
         ? uniqueRosterItems(incoming)
@@ -1447,6 +1714,69 @@ function App() {
     setGeminiStatus(`已${geminiMode === 'replace' ? '替换' : '追加'}到花名册：当前 ${next.length} 人。`)
   }
 
+  const loadRosterFile = async (file: File) => {
+    setRosterImportStatus('')
+    try {
+      const rows = await readSpreadsheetRows(file)
+      const mapping = detectRosterColumns(rows)
+      const classes = rosterClassesFromRows(rows, mapping)
+      setRosterImport({ fileName: file.name, rows, mapping })
+      setRosterImportClass(classes.includes(className) ? className : '')
+      setRosterImportStatus(
+        mapping.name === -1
+          ? '未能自动识别“姓名”列，请在下方手动选择。'
+          : `已读取 ${file.name}：请确认列对应关系后应用。`,
+      )
+    } catch (e) {
+      setRosterImport(null)
+      setRosterImportStatus((e as Error).message || '读取文件失败。')
+    }
+  }
+
+  const updateRosterImportMapping = (patch: Partial<RosterColumnMapping>) =>
+    setRosterImport((prev) => (prev ? { ...prev, mapping: { ...prev.mapping, ...patch } } : prev))
+
+  const applyRosterImport = () => {
+    if (rosterImportItems.length === 0) {
+      setRosterImportStatus('没有可导入的学生：请检查“姓名”列或班级筛选。')
+      return
+    }
+    const next =
+      rosterImportMode === 'replace'
+        ? uniqueRosterItems(rosterImportItems)
+        : uniqueRosterItems([...normalizeRoster(rosterText), ...rosterImportItems])
+    setRosterText(rosterItemsToText(next))
+    setRosterImport(null)
+    setRosterImportStatus(`已${rosterImportMode === 'replace' ? '替换' : '追加'}到花名册：当前 ${next.length} 人。`)
+  }
+
+  const importGradeSheet = async (file: File) => {
+    await flushPendingSave()
+    try {
+      const parsed = parseExportedGradeSheet(await readSpreadsheetRows(file))
+      clearAll()
+      const rec: AssignmentRecord = {
+        ...newAssignmentRecord({
+          className: parsed.className || className,
+          date: parsed.date || safeTodayISO(),
+          homeworkTitle: parsed.homeworkTitle,
+          gradingScaleId: parsed.gradingScaleId,
+          customMaxScore: parsed.customMaxScore,
+        }),
+        entries: parsed.entries,
+      }
+      applyAssignmentRecord(rec)
+      lastSavedSnapshotRef.current = ''
+      setGradebookStatus(
+        parsed.className
+          ? `已从 ${file.name} 导入 ${parsed.entries.length} 条记录到班级“${parsed.className}”（作为新作业，自动保存）。`
+          : `已从 ${file.name} 导入 ${parsed.entries.length} 条记录（表中未写班级，已归入当前班级“${className || '（未填班级）'}”，作为新作业，自动保存）。`,
+      )
+    } catch (e) {
+      setGradebookStatus((e as Error).message || '导入成绩表失败。')
+    }
+  }
+
   return (
     <div className="app">
       <header className="header">
@@ -1456,30 +1786,213 @@ function App() {
         </div>
       </header>
 
-      <main className="main">
-        <section className="panel">
-          <div className="panel-title">控制区</div>
+      <main className="main">
+        <section className="panel">
+          <div className="panel-title">控制区</div>
+
+          <div className="controls">
+            <button
+              className="btn btn-primary"
+              onClick={start}
+              disabled={isRecording}
+              title={speechUnavailable || undefined}
+            >
+              开始录音
+            </button>
+            <button className="btn" onClick={stopAndSave} disabled={(!isRecording && !liveText) || geminiMatchLoading}>
+              结束 / 保存到登记表
+            </button>
+            <button className="btn btn-danger" onClick={clearAll} disabled={!finalText && !interimText && entries.length === 0}>
+              清空
+            </button>
+
+            <div className="pill" aria-live="polite">
+              {!isRecording
+                ? '未录音'
+                : readingBack
+                  ? '朗读确认中…'
+                  : recordingReconnect === null
+                    ? '录音中…'
+                    : `重新连接中…${recordingReconnect ? `（第 ${recordingReconnect} 次重试）` : ''}`}
+            </div>
+          </div>
+
+          <div className="ai-actions">
+            <select
+              className="input select"
+              value={speechEngineId}
+              onChange={(e) => setSpeechEngineId(e.target.value as SpeechEngineId)}
+              disabled={isRecording || rosterVoiceOn}
+              aria-label="语音识别引擎"
+            >
+              {(Object.keys(SPEECH_ENGINE_LABELS) as SpeechEngineId[]).map((id) => (
+                <option key={id} value={id}>
+                  识别引擎：{SPEECH_ENGINE_LABELS[id]}
+                </option>
+              ))}
+            </select>
+            {speechEngineId === 'local-whisper' ? (
+              <input
+                className="input"
+                value={localAsrModuleUrl}
+                onChange={(e) => setLocalAsrModuleUrl(e.target.value)}
+                placeholder={`识别模块地址，如 ${LOCAL_ASR_EXAMPLE_MODULE_URL}`}
+                disabled={isRecording || rosterVoiceOn}
+                aria-label="本地识别模块地址"
+                title="导出 load() 的本地识别模块（见 README「本地 Whisper 引擎」）"
+              />
+            ) : null}
+            {speechEngineId === 'file-replay' ? (
+              <label className={`btn file-btn ${isRecording || rosterVoiceOn ? 'disabled' : ''}`}>
+                {speechReplay ? `回放脚本：${speechReplay.fileName}（${speechReplay.steps.length} 步）` : '载入回放脚本…'}
+                <input
+                  type="file"
+                  accept=".txt,text/plain"
+                  disabled={isRecording || rosterVoiceOn}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (!file) return
+                    void file.text().then((text) => setSpeechReplay({ fileName: file.name, ...parseSpeechReplayScript(text) }))
+                  }}
+                />
+              </label>
+            ) : null}
+          </div>
+          {speechEngineId === 'file-replay' && speechReplay?.problems.length ? (
+            <div className="hint danger">{speechReplay.problems.join('；')}</div>
+          ) : null}
+
+          <label className="check">
+            <input
+              type="checkbox"
+              checked={readBackConfirm}
+              onChange={(e) => setReadBackConfirm(e.target.checked)}
+              disabled={!('speechSynthesis' in window)}
+            />
+            <span>朗读确认：每句识别后念出结果（如“李四，88分”），说“不对”即删除这一句（朗读时暂停识别）</span>
+          </label>
+
+          <label className="check">
+            <input
+              type="checkbox"
+              checked={guidedMode}
+              onChange={(e) => setGuidedMode(e.target.checked)}
+              disabled={isRecording}
+            />
+            <span>逐个点名：按顺序提示学生，老师只需念成绩，或说“跳过”“缺交”“上一个”，直接写入登记表</span>
+          </label>
+          {guidedMode ? (
+            <div className="ai-actions">
+              <select
+                className="input select"
+                value={guidedOrder}
+                onChange={(e) => setGuidedOrder(e.target.value as GuidedOrder)}
+                disabled={isRecording}
+                aria-label="点名顺序"
+              >
+                {(Object.keys(GUIDED_ORDER_LABELS) as GuidedOrder[]).map((o) => (
+                  <option key={o} value={o}>
+                    点名顺序：{GUIDED_ORDER_LABELS[o]}
+                  </option>
+                ))}
+              </select>
+              <label className="check">
+                <input
+                  type="checkbox"
+                  checked={guidedAnnounce}
+                  onChange={(e) => setGuidedAnnounce(e.target.checked)}
+                  disabled={isRecording || !('speechSynthesis' in window)}
+                />
+                <span>语音念出学生姓名</span>
+              </label>
+            </div>
+          ) : null}
+          {guidedMode && guidedOrder === 'custom' ? (
+            <textarea
+              className="textarea"
+              value={guidedCustomOrder}
+              onChange={(e) => setGuidedCustomOrder(e.target.value)}
+              rows={4}
+              disabled={isRecording}
+              placeholder="按作业本的叠放顺序，每行一个学号或姓名"
+            />
+          ) : null}
+          {guidedRun ? (
+            <div className="guided" aria-live="polite">
+              {guidedRun.index < guidedRun.students.length ? (
+                <>
+                  <div className="tiny">
+                    第 {guidedRun.index + 1}/{guidedRun.students.length} 位，请念成绩：
+                  </div>
+                  <div className="guided-current">
+                    {guidedRun.students[guidedRun.index].studentId ? (
+                      <span className="mono">{guidedRun.students[guidedRun.index].studentId} </span>
+                    ) : null}
+                    {guidedRun.students[guidedRun.index].name}
+                  </div>
+                  {guidedRun.students[guidedRun.index + 1] ? (
+                    <div className="tiny">下一位：{guidedRun.students[guidedRun.index + 1].name}</div>
+                  ) : null}
+                </>
+              ) : (
+                <div className="guided-current">已点完全部 {guidedRun.students.length} 名学生</div>
+              )}
+              {guidedStatus ? <div className="tiny">{guidedStatus}</div> : null}
+            </div>
+          ) : guidedStatus ? (
+            <div className="hint">{guidedStatus}</div>
+          ) : null}
+
+          <div className="meta">
+            <label className="field">
+              <div className="field-label">班级</div>
+              <input
+                className="input"
+                value={className}
+                onChange={(e) => setClassName(e.target.value)}
+                placeholder="例如：三年级2班"
+              />
+            </label>
+            <label className="field">
+              <div className="field-label">作业记录（自动保存到本机浏览器）</div>
+              <select
+                className="input select"
+                value={assignmentId ?? ''}
+                onChange={(e) => void openAssignment(e.target.value)}
+                disabled={isRecording || geminiMatchLoading}
+                aria-label="打开已保存的作业"
+              >
+                {assignmentId && !assignments.some((a) => a.id === assignmentId) ? (
+                  <option value={assignmentId}>{assignmentLabel({ className, date, homeworkTitle })}（未保存）</option>
+                ) : null}
+                {assignments.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {assignmentLabel(a)}（{a.entries.length} 条）
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
 
-          <div className="controls">
+          <div className="ai-actions">
+            <button className="btn" onClick={() => void newAssignment()} disabled={isRecording || geminiMatchLoading}>
+              新建作业
+            </button>
             <button
-              className="btn btn-primary"
-              onClick={start}
-              disabled={isRecording}
-              title={!supported ? '当前浏览器不支持 Web Speech API' : undefined}
+              className="btn btn-danger"
+              onClick={() => void deleteCurrentAssignment()}
+              disabled={isRecording || !assignments.some((a) => a.id === assignmentId)}
             >
-              开始录音
+              删除此作业
             </button>
-            <button className="btn" onClick={stopAndSave} disabled={(!isRecording && !liveText) || geminiMatchLoading}>
-              结束 / 保存到登记表
-            </button>
-            <button className="btn btn-danger" onClick={clearAll} disabled={!finalText && !interimText && entries.length === 0}>
-              清空
-            </button>
-
-            <div className="pill" aria-live="polite">
-              {isRecording ? '录音中…' : '未录音'}
-            </div>
+            {gradebookStatus ? <div className="tiny">{gradebookStatus}</div> : null}
           </div>
+          {duplicateAssignment ? (
+            <div className="hint danger">
+              已存在同班级、同日期、同名称的作业记录（{duplicateAssignment.entries.length} 条），可在“作业记录”中打开它继续录入。
+            </div>
+          ) : null}
 
           <div className="meta">
             <label className="field">
@@ -1502,10 +2015,48 @@ function App() {
             </label>
           </div>
 
-          {!supported ? (
-            <div className="hint danger">
-              当前浏览器可能不支持 Web Speech API。建议使用桌面版 Chrome（并允许麦克风权限）。
-            </div>
+          <div className="meta">
+            <label className="field">
+              <div className="field-label">评分制</div>
+              <select
+                className="input select"
+                value={gradingScaleId}
+                onChange={(e) => setGradingScaleId(e.target.value)}
+              >
+                {GRADING_SCALE_PRESETS.map((sc) => (
+                  <option key={sc.id} value={sc.id}>
+                    {sc.label}
+                  </option>
+                ))}
+                <option value={GRADING_SCALE_CUSTOM}>自定义满分…</option>
+              </select>
+            </label>
+            {gradingScaleId === GRADING_SCALE_CUSTOM ? (
+              <label className="field">
+                <div className="field-label">满分</div>
+                <input
+                  className="input"
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={customMaxScore}
+                  onChange={(e) => setCustomMaxScore(Number(e.target.value) || 0)}
+                  placeholder="例如：120"
+                />
+              </label>
+            ) : (
+              <div className="tiny">
+                {gradingScale.kind === 'levels'
+                  ? `可念：${gradingScale.levels.map((l) => l.aliases.join('/')).join('，')}（导出时附百分制换算）`
+                  : gradingScale.max === 100
+                    ? '成绩范围 0-100。'
+                    : `成绩范围 0-${gradingScale.max}（导出时附百分制换算）。`}
+              </div>
+            )}
+          </div>
+
+          {speechUnavailable ? (
+            <div className="hint danger">{speechUnavailable}</div>
           ) : (
             <div className="hint">
               建议念法：<span className="mono">张三 95，李四 88</span>；支持中文数字如 <span className="mono">王五 九十五分</span>。
@@ -1513,20 +2064,37 @@ function App() {
           )}
 
           {status ? <div className="hint danger">{status}</div> : null}
+          {readBackStatus ? <div className="hint">{readBackStatus}</div> : null}
           {geminiMatchStatus ? (
             <div className={`hint ${geminiMatchStatus.includes('失败') ? 'danger' : ''}`}>{geminiMatchStatus}</div>
           ) : null}
+          {aiRejectedItems.length ? (
+            <div className="hint danger">
+              <div>AI 返回但未写入的记录（请核对后手动补录）：</div>
+              <ul className="rejected-list">
+                {aiRejectedItems.map((r, i) => (
+                  <li key={i}>
+                    <span className="mono">{r.label}</span>：{r.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
 
           <label className="check">
             <input
               type="checkbox"
               checked={useGeminiForMatching}
               onChange={(e) => setUseGeminiForMatching(e.target.checked)}
-              disabled={!geminiApiKey.trim()}
+              disabled={!aiReady}
             />
             <span>
-              结束保存时用 Gemini 基于花名册（学号/姓名）做匹配（更准确，需填写 API Key）
-              {geminiMatchLoading ? '（匹配中…）' : ''}
+              结束保存时用 {aiProviderImpl.label} 基于花名册（学号/姓名）做匹配（更准确，需在下方配置 AI）
+              {geminiMatchLoading
+                ? geminiMatchProgress && geminiMatchProgress.total > 1
+                  ? `（匹配中… 已完成 ${geminiMatchProgress.done}/${geminiMatchProgress.total} 段）`
+                  : '（匹配中…）'
+                : ''}
             </span>
           </label>
         </section>
@@ -1543,14 +2111,118 @@ function App() {
           />
           <div className="tiny">当前花名册人数：{roster.length}</div>
 
+          <div className="ai-actions">
+            <label className="btn file-btn">
+              从 Excel/CSV 导入…
+              <input
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void loadRosterFile(file)
+                }}
+              />
+            </label>
+            {rosterImportStatus ? <div className="tiny">{rosterImportStatus}</div> : null}
+          </div>
+
+          {rosterImport ? (
+            <section className="panel inset">
+              <div className="panel-title">导入预览：{rosterImport.fileName}</div>
+              <div className="ai-grid">
+                <label className="field">
+                  <div className="field-label">姓名列</div>
+                  <select
+                    className="input select"
+                    value={rosterImport.mapping.name}
+                    onChange={(e) => updateRosterImportMapping({ name: Number(e.target.value) })}
+                  >
+                    <option value={-1}>（未选择）</option>
+                    {rosterImportColumns.map((c) => (
+                      <option key={c.col} value={c.col}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="field">
+                  <div className="field-label">学号列</div>
+                  <select
+                    className="input select"
+                    value={rosterImport.mapping.studentId}
+                    onChange={(e) => updateRosterImportMapping({ studentId: Number(e.target.value) })}
+                  >
+                    <option value={-1}>（无学号）</option>
+                    {rosterImportColumns.map((c) => (
+                      <option key={c.col} value={c.col}>
+                        {c.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {rosterImportClasses.length > 1 ? (
+                  <label className="field">
+                    <div className="field-label">只导入班级</div>
+                    <select
+                      className="input select"
+                      value={rosterImportClass}
+                      onChange={(e) => setRosterImportClass(e.target.value)}
+                    >
+                      <option value="">全部班级</option>
+                      {rosterImportClasses.map((c) => (
+                        <option key={c} value={c}>
+                          {c}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ) : null}
+              </div>
+              <div className="tiny">
+                识别到 {rosterImportItems.length} 人
+                {rosterImport.mapping.gender !== -1 ? '（性别列不导入）' : ''}
+                {rosterImportItems.length > 8 ? '，以下为前 8 人：' : '：'}
+              </div>
+              <div className="preview roster-preview">
+                {rosterImportItems.slice(0, 8).map((r) => (
+                  <div key={r.studentId || r.name} className="preview-row">
+                    <div className="preview-name">
+                      {r.studentId ? `${r.studentId} ` : ''}
+                      {r.name}
+                    </div>
+                    <div className="preview-score">{/* spacer */}</div>
+                  </div>
+                ))}
+              </div>
+              <div className="ai-actions">
+                <select
+                  className="input select"
+                  value={rosterImportMode}
+                  onChange={(e) => setRosterImportMode(e.target.value as GeminiRosterMode)}
+                  aria-label="导入方式"
+                >
+                  <option value="append">追加去重</option>
+                  <option value="replace">替换花名册</option>
+                </select>
+                <button className="btn btn-primary" onClick={applyRosterImport} disabled={rosterImportItems.length === 0}>
+                  应用到花名册
+                </button>
+                <button className="btn" onClick={() => setRosterImport(null)}>
+                  取消
+                </button>
+              </div>
+            </section>
+          ) : null}
+
           <div className="divider" />
           <div className="panel-title">AI 实时语音录入花名册</div>
           <div className="panel-subtitle">
-            点击开始后直接念学生姓名（可带序号/停顿/重复），系统会实时转写并由 Gemini 提取姓名，自动追加到花名册。
+            点击开始后直接念学生姓名（可带序号/停顿/重复），系统会实时转写并由 AI 提取姓名，自动追加到花名册。
           </div>
 
           <div className="controls">
-            <button className="btn btn-primary" onClick={startRosterVoice} disabled={rosterVoiceOn || !supported}>
+            <button className="btn btn-primary" onClick={startRosterVoice} disabled={rosterVoiceOn || Boolean(speechUnavailable)}>
               开始语音录入花名册
             </button>
             <button className="btn" onClick={() => void stopRosterVoice()} disabled={!rosterVoiceOn}>
@@ -1560,7 +2232,11 @@ function App() {
               撤销本次录入
             </button>
             <div className="pill" aria-live="polite">
-              {rosterVoiceOn ? '录入中…' : '未录入'}
+              {!rosterVoiceOn
+                ? '未录入'
+                : rosterVoiceReconnect === null
+                  ? '录入中…'
+                  : `重新连接中…${rosterVoiceReconnect ? `（第 ${rosterVoiceReconnect} 次重试）` : ''}`}
             </div>
           </div>
 
@@ -1612,22 +2288,64 @@ function App() {
           <div className="ai-grid">
             <label className="field">
               <div className="field-label">AI 提供方</div>
-              <select className="input select" value={aiProvider} onChange={(e) => setAiProvider(e.target.value as AiProvider)}>
+              <select className="input select" value={aiProvider} onChange={(e) => setAiProvider(e.target.value as AiProviderId)}>
                 <option value="gemini">Gemini</option>
                 <option value="qwen">通义千问（Qwen）</option>
+                <option value="openai">OpenAI 兼容接口（可自建 / Ollama）</option>
+                <option value="mock">模拟 AI（离线，开发 / 测试用）</option>
               </select>
             </label>
             <label className="field">
-              <div className="field-label">API Key</div>
-              <input
-                className="input"
-                type="password"
-                value={aiProvider === 'gemini' ? geminiApiKey : qwenApiKey}
-                onChange={(e) => (aiProvider === 'gemini' ? setGeminiApiKey(e.target.value) : setQwenApiKey(e.target.value))}
-                placeholder={aiProvider === 'gemini' ? 'Gemini Key（或 VITE_GEMINI_API_KEY）' : 'DashScope Key（或 VITE_QWEN_API_KEY）'}
-                autoComplete="off"
-              />
+              <div className="field-label">调用方式</div>
+              <select
+                className="input select"
+                value={aiTransport}
+                onChange={(e) => setAiTransport(e.target.value as AiTransport)}
+              >
+                <option value="direct">浏览器直连（Key 在本页）</option>
+                <option value="proxy">本地代理（Key 保存在代理服务器）</option>
+              </select>
             </label>
+            {aiProvider === 'mock' ? (
+              <div className="field">
+                <div className="field-label">API Key</div>
+                <div className="tiny">模拟 AI 不需要 Key，也不联网：按本地规则解析，结果可复现。</div>
+              </div>
+            ) : aiTransport === 'proxy' ? (
+              <label className="field">
+                <div className="field-label">代理地址</div>
+                <input
+                  className="input"
+                  value={aiProxyUrl}
+                  onChange={(e) => setAiProxyUrl(e.target.value)}
+                  placeholder={`例如：${AI_PROXY_DEFAULT_URL}（pnpm proxy 启动）`}
+                />
+              </label>
+            ) : (
+              <label className="field">
+                <div className="field-label">API Key</div>
+                <input
+                  className="input"
+                  type="password"
+                  value={aiProvider === 'gemini' ? geminiApiKey : aiProvider === 'qwen' ? qwenApiKey : openaiApiKey}
+                  onChange={(e) =>
+                    aiProvider === 'gemini'
+                      ? setGeminiApiKey(e.target.value)
+                      : aiProvider === 'qwen'
+                        ? setQwenApiKey(e.target.value)
+                        : setOpenaiApiKey(e.target.value)
+                  }
+                  placeholder={
+                    aiProvider === 'gemini'
+                      ? 'Gemini Key（或 VITE_GEMINI_API_KEY）'
+                      : aiProvider === 'qwen'
+                        ? 'DashScope Key（或 VITE_QWEN_API_KEY）'
+                        : '可留空（本地服务）；或 VITE_OPENAI_API_KEY'
+                  }
+                  autoComplete="off"
+                />
+              </label>
+            )}
             <label className="field">
               <div className="field-label">模型</div>
               {aiProvider === 'gemini' ? (
@@ -1656,6 +2374,39 @@ function App() {
                   ) : null}
                   <option value={GEMINI_CUSTOM_MODEL}>自定义…</option>
                 </select>
+              ) : aiProvider === 'mock' ? (
+                <select
+                  className="input select"
+                  value={mockModel}
+                  onChange={(e) => setMockModel(e.target.value)}
+                  aria-label="模拟 AI 响应格式"
+                >
+                  {(mockModels.length ? mockModels : [mockModel]).map((m) => (
+                    <option key={m} value={m}>
+                      {m === 'mock-gemini'
+                        ? 'mock-gemini（generateContent 格式）'
+                        : m === 'mock-dashscope'
+                          ? 'mock-dashscope（DashScope 格式）'
+                          : m}
+                    </option>
+                  ))}
+                </select>
+              ) : aiProvider === 'openai' ? (
+                <>
+                  <input
+                    className="input"
+                    value={openaiModel}
+                    onChange={(e) => setOpenaiModel(e.target.value)}
+                    list="openai-models"
+                    placeholder="例如：gpt-4o-mini、qwen2.5:7b"
+                    aria-label="OpenAI 兼容模型名称"
+                  />
+                  <datalist id="openai-models">
+                    {openaiModels.map((m) => (
+                      <option key={m} value={m} />
+                    ))}
+                  </datalist>
+                </>
               ) : (
                 <select
                   className="input select"
@@ -1679,16 +2430,42 @@ function App() {
           <div className="ai-actions">
             {aiProvider === 'gemini' ? (
               <>
-                <button className="btn" onClick={() => void refreshGeminiModels()} disabled={geminiModelsLoading || !geminiApiKey.trim()}>
+                <button className="btn" onClick={() => void refreshGeminiModels()} disabled={geminiModelsLoading || !(aiProxy || geminiApiKey.trim())}>
                   {geminiModelsLoading ? '刷新中…' : '刷新模型列表'}
                 </button>
                 {geminiModelsStatus ? <div className="tiny">{geminiModelsStatus}</div> : null}
               </>
-            ) : (
+            ) : aiProvider === 'openai' ? (
+              <>
+                <button className="btn" onClick={() => void refreshOpenaiModels()} disabled={openaiModelsLoading || !(aiProxy || openaiBaseUrl.trim())}>
+                  {openaiModelsLoading ? '刷新中…' : '刷新模型列表'}
+                </button>
+                {openaiModelsStatus ? <div className="tiny">{openaiModelsStatus}</div> : null}
+              </>
+            ) : aiProvider === 'mock' ? (
+              <>
+                <button className="btn" onClick={() => void refreshMockModels()}>
+                  刷新模型列表
+                </button>
+                {mockModelsStatus ? <div className="tiny">{mockModelsStatus}</div> : null}
+              </>
+            ) : aiProvider === 'qwen' ? (
               <div className="tiny">提示：千问（DashScope）未提供同等的前端可用“列模型”接口，这里使用常用预设 + 自定义。</div>
-            )}
+            ) : null}
           </div>
 
+          {aiProvider === 'openai' && aiTransport === 'direct' ? (
+            <label className="field">
+              <div className="field-label">接口地址（Base URL）</div>
+              <input
+                className="input"
+                value={openaiBaseUrl}
+                onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                placeholder={`例如：${OPENAI_DEFAULT_BASE_URL} 或 http://localhost:11434/v1`}
+              />
+            </label>
+          ) : null}
+
           {aiProvider === 'gemini' && geminiModelChoice === GEMINI_CUSTOM_MODEL ? (
             <label className="field">
               <div className="field-label">自定义模型名称</div>
@@ -1722,6 +2499,230 @@ function App() {
             <span>记住 API Key（保存到浏览器 localStorage）</span>
           </label>
 
+          <div className="ai-grid">
+            <label className="field">
+              <div className="field-label">超时（秒）</div>
+              <input
+                className="input"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                value={aiTimeoutSeconds}
+                onChange={(e) => setAiTimeoutSeconds(Number(e.target.value) || AI_DEFAULT_TIMEOUT_MS / 1000)}
+              />
+            </label>
+            <label className="field">
+              <div className="field-label">失败自动重试（次）</div>
+              <input
+                className="input"
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={5}
+                value={aiRetries}
+                onChange={(e) => setAiRetries(Math.min(5, Math.max(0, Number(e.target.value) || 0)))}
+              />
+            </label>
+          </div>
+          <div className="tiny">限流（429）、超时与服务繁忙（5xx）会按 Retry-After 或指数退避自动重试；Key 无效、模型不存在、跨域拦截不会重试。</div>
+
+          <label className="field">
+            <div className="field-label">长转写分段处理</div>
+            <select
+              className="select"
+              value={aiChunkConcurrency}
+              onChange={(e) => setAiChunkConcurrency(Number(e.target.value))}
+            >
+              {AI_CHUNK_CONCURRENCY_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n === 1 ? '逐段依次发送（适合有限流的 Key / 代理）' : `同时发送 ${n} 段（更快）`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="tiny">
+            转写超过约 {AI_CHUNK_MAX_CHARS} 字时按整句切成多段分别匹配，再按念的先后合并（同一学生以最后一次为准），避免整班一次返回被截断。
+          </div>
+
+          <label className="check">
+            <input type="checkbox" checked={aiPrivacyMode} onChange={(e) => setAiPrivacyMode(e.target.checked)} />
+            <span>隐私模式：发送给 AI 前把姓名、学号替换为代号（如 [S3]、[N3]），返回后在本页还原；不发送名单原文</span>
+          </label>
+
+          <details
+            className="pending prompt-editor"
+            open={aiPromptEditorOpen}
+            onToggle={(e) => setAiPromptEditorOpen(e.currentTarget.open)}
+          >
+            <summary>
+              提示词模板（成绩匹配 {resolvePromptTemplate('score-matching', aiPromptOverrides).version}，花名册提取{' '}
+              {resolvePromptTemplate('roster-extraction', aiPromptOverrides).version}）
+            </summary>
+            <div className="ai-grid">
+              <label className="field">
+                <div className="field-label">模板</div>
+                <select
+                  className="select"
+                  value={aiPromptEditorId}
+                  onChange={(e) => {
+                    if (isAiPromptTemplateId(e.target.value)) setAiPromptEditorId(e.target.value)
+                  }}
+                >
+                  {(Object.keys(AI_PROMPT_TEMPLATES) as AiPromptTemplateId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {AI_PROMPT_TEMPLATES[id].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="field">
+                <div className="field-label">版本名称（可选，如“数学”）</div>
+                <input
+                  className="input"
+                  value={aiPromptOverrides[aiPromptEditorId]?.name ?? ''}
+                  onChange={(e) => updateAiPrompt({ name: e.target.value })}
+                  placeholder="custom"
+                />
+              </label>
+            </div>
+            <textarea
+              className="textarea mono"
+              value={aiPromptEditorTemplate.text}
+              onChange={(e) => updateAiPrompt({ text: e.target.value })}
+              rows={12}
+            />
+            <div className="tiny">
+              可用变量：
+              {Object.entries(AI_PROMPT_TEMPLATES[aiPromptEditorId].variables).map(([name, desc]) => (
+                <span key={name} className="tiny-inline">
+                  <span className="mono">{`{{${name}}}`}</span> {desc}；
+                </span>
+              ))}
+              当前版本：<span className="mono">{aiPromptEditorTemplate.version}</span>（会记录在每次 AI 结果中）
+            </div>
+            {promptTemplateProblems(aiPromptEditorId, aiPromptEditorTemplate.text).length ? (
+              <div className="hint danger">{promptTemplateProblems(aiPromptEditorId, aiPromptEditorTemplate.text).join('；')}</div>
+            ) : null}
+            <div className="ai-actions">
+              <button className="btn" onClick={resetAiPrompt} disabled={!aiPromptOverrides[aiPromptEditorId]}>
+                恢复默认
+              </button>
+            </div>
+            <div className="tiny">
+              预览（用当前花名册、识别文本或待提取文本填充
+              {aiPromptEditorId === 'photo-roster' || aiPromptEditorId === 'photo-scores' ? '；照片随提示词一起发送，此处不显示' : ''}）：
+            </div>
+            <pre className="outbound-body">{aiPromptPreview}</pre>
+          </details>
+
+          <details className="pending outbound-log">
+            <summary>已发送给 AI 的内容（本次打开页面后 {aiOutboundLog.length} 条，Key 已隐去）</summary>
+            {aiOutboundLog.length === 0 ? (
+              <div className="tiny">尚未发送任何内容。</div>
+            ) : (
+              <>
+                <div className="ai-actions">
+                  <button className="btn" onClick={() => setAiOutboundLog([])}>
+                    清空记录
+                  </button>
+                </div>
+                {aiOutboundLog.map((r) => (
+                  <div key={r.id} className="outbound-entry">
+                    <div className="tiny">
+                      {new Date(r.time).toLocaleTimeString()} · {r.providerLabel} · {r.method} {r.url}
+                      {r.pseudonymized ? ' · 已替换代号' : ''}
+                    </div>
+                    {Object.keys(r.headers).length ? (
+                      <pre className="outbound-body">
+                        {Object.entries(r.headers)
+                          .map(([name, value]) =>
+                            name === 'x-class-name' ? `${name}: ${value}（${safeDecodeURIComponent(value)}）` : `${name}: ${value}`,
+                          )
+                          .join('\n')}
+                      </pre>
+                    ) : null}
+                    {r.body ? <pre className="outbound-body">{r.body}</pre> : null}
+                  </div>
+                ))}
+              </>
+            )}
+          </details>
+
+          <details className="pending usage-log">
+            <summary>
+              AI 用量与费用（本月预估 {formatCny(aiMonthCost)}
+              {aiMonthlyBudget > 0 ? ` / 预算 ${formatCny(aiMonthlyBudget)}` : ''}）
+            </summary>
+            <label className="field">
+              <div className="field-label">每月预算上限（元，0 为不限）</div>
+              <input
+                className="input"
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step={1}
+                value={aiMonthlyBudget}
+                onChange={(e) => setAiMonthlyBudget(Math.max(0, Number(e.target.value) || 0))}
+              />
+            </label>
+            <div className={aiBudgetBlock ? 'hint danger' : 'tiny'}>
+              {aiBudgetBlock ||
+                '设置预算后，达到上限即暂停所有计费的 AI 调用：实时语音提取花名册、结束保存时的 AI 匹配（改用本地解析）、名单文本提取、照片识别与起草评语；所选模型没有已知单价时同样暂停。费用按公开单价估算，仅供参考；模拟 AI 与获取模型列表不计费，也不受预算限制。'}
+            </div>
+            {aiMonthUnpriced ? (
+              <div className="hint">
+                本月有 {aiMonthUnpriced} 次调用无法估算费用（模型没有已知单价，或回复未带用量），未计入上面的预估金额。
+              </div>
+            ) : null}
+            {aiUsageLog.length === 0 ? (
+              <div className="tiny">暂无调用记录。</div>
+            ) : (
+              <>
+                <div className="usage-table">
+                  <div className="usage-row usage-head">
+                    <div>日期</div>
+                    <div>班级</div>
+                    <div>次数</div>
+                    <div>输入 / 输出 tokens</div>
+                    <div>预估费用</div>
+                  </div>
+                  {aiUsageSummary.map((row) => (
+                    <div className="usage-row" key={`${row.day} ${row.className}`}>
+                      <div>{row.day}</div>
+                      <div>{row.className}</div>
+                      <div>
+                        {row.calls}
+                        {row.failed ? `（失败 ${row.failed}）` : ''}
+                      </div>
+                      <div>
+                        {row.inputTokens} / {row.outputTokens}
+                      </div>
+                      <div>
+                        {formatCny(row.costCny)}
+                        {row.unpriced ? `（${row.unpriced} 次无单价）` : ''}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <details className="pending">
+                  <summary>最近 {Math.min(aiUsageLog.length, 20)} 次调用</summary>
+                  {aiUsageLog.slice(0, 20).map((r) => (
+                    <div key={r.id} className="tiny">
+                      {new Date(r.time).toLocaleString()} · {AI_PROVIDERS[r.providerId]?.label ?? r.providerId} {r.model || ''} ·{' '}
+                      {AI_CALL_PURPOSE_LABELS[r.purpose] ?? r.purpose} · {r.usage ? `${r.usage.inputTokens} / ${r.usage.outputTokens} tokens` : '无用量数据'} ·{' '}
+                      {(r.latencyMs / 1000).toFixed(1)} 秒 · {r.ok ? (r.costCny === null ? '无单价' : formatCny(r.costCny)) : '失败'}
+                    </div>
+                  ))}
+                </details>
+                <div className="ai-actions">
+                  <button className="btn" onClick={() => setAiUsageLog([])}>
+                    清空用量记录
+                  </button>
+                </div>
+              </>
+            )}
+          </details>
+
           <textarea
             className="textarea"
             value={geminiInputText}
@@ -1752,13 +2753,54 @@ function App() {
             </button>
           </div>
 
+          <div className="ai-actions">
+            <select
+              className="input select"
+              value={photoMode}
+              onChange={(e) => setPhotoMode(e.target.value as AiPhotoMode)}
+              aria-label="照片内容"
+            >
+              <option value="roster">照片内容：花名册（学号 + 姓名）</option>
+              <option value="scores">照片内容：成绩表（学号 + 姓名 + 成绩）</option>
+            </select>
+            {aiProvider === 'qwen' ? (
+              <input
+                className="input"
+                value={qwenVisionModel}
+                onChange={(e) => setQwenVisionModel(e.target.value)}
+                placeholder="qwen-vl-plus"
+                aria-label="千问视觉模型"
+                title="识别照片使用的千问视觉模型"
+              />
+            ) : null}
+            <label className={`btn file-btn ${geminiLoading || geminiMatchLoading ? 'disabled' : ''}`}>
+              {geminiLoading ? '识别中…' : '从照片识别…'}
+              <input
+                type="file"
+                accept={aiProvider === 'mock' ? 'image/*,text/plain' : 'image/*'}
+                disabled={geminiLoading || geminiMatchLoading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void importPhoto(file)
+                }}
+              />
+            </label>
+          </div>
+          <div className="tiny">
+            拍下纸质花名册或批改好的成绩表上传：花名册进入下方预览，按“追加去重/替换花名册”应用；成绩进入“核对 AI 匹配结果”确认后写入。需要能识图的模型（Gemini 均可；千问使用上面填写的 Qwen-VL 模型；OpenAI 兼容接口需选视觉模型）。
+          </div>
+
           {geminiStatus ? <div className={`hint ${geminiStatus.includes('失败') ? 'danger' : ''}`}>{geminiStatus}</div> : null}
 
           {geminiPreview.length ? (
             <div className="preview roster-preview">
-              {geminiPreview.map((n) => (
-                <div key={n} className="preview-row">
-                  <div className="preview-name">{n}</div>
+              {geminiPreview.map((r) => (
+                <div key={`${r.studentId} ${r.name}`} className="preview-row">
+                  <div className="preview-name">
+                    {r.studentId ? <span className="mono">{r.studentId} </span> : null}
+                    {r.name}
+                  </div>
                   <div className="preview-score">{/* spacer */}</div>
                 </div>
               ))}
@@ -1778,45 +2820,227 @@ function App() {
 
           <section className="panel">
             <div className="panel-title">实时解析预览（只读）</div>
-            <div className="panel-subtitle">结束后点“保存到登记表”即可进入可编辑状态。</div>
-            {parsedLive.length === 0 ? (
+            <div className="panel-subtitle">
+              结束后点“保存到登记表”即可进入可编辑状态。录音中可直接说“撤销上一个”“张三改成九十”“删除李四”“王五没交”。
+            </div>
+            {dictationLive.length === 0 ? (
               <div className="empty">（尚未解析到“姓名/学号-成绩”）</div>
             ) : (
               <div className="preview">
-                {parsedLive.map((p) => (
-                  <div key={`${p.studentId || p.name}_${p.score}`} className="preview-row">
-                    <div className="preview-name">
-                      {p.studentId ? `${p.studentId} ` : ''}
-                      {p.name}
-                      <span className={`tag tag-${p.matchType}`}>
-                        {p.matchType === 'exact'
-                          ? '花名册匹配'
-                          : '未匹配'}
-                      </span>
+                {dictationLive.map((edit) => {
+                  const p = edit.kind === 'score' ? edit.pair : edit.target
+                  return (
+                    <div key={`${edit.kind}_${p.studentId || p.name}`} className={`preview-row preview-${edit.kind}`}>
+                      <div className="preview-name">
+                        {p.studentId ? `${p.studentId} ` : ''}
+                        {p.name}
+                        <span className={`tag tag-${p.matchType}`}>
+                          {p.matchType === 'exact'
+                            ? '花名册匹配'
+                            : p.matchType === 'fuzzy'
+                              ? `${p.confidence >= FUZZY_AUTO_ACCEPT_CONFIDENCE ? '近音匹配' : '近音待确认'} ${Math.round(p.confidence * 100)}%`
+                              : '未匹配'}
+                        </span>
+                        {edit.kind === 'score' && edit.correction ? <span className="tag">已更正</span> : null}
+                        {isSpokenInUtterances(p.source, lowConfidenceUtterances) ? (
+                          <span className="tag tag-low" title="识别器对这句话把握不大，请核对">
+                            识别存疑
+                          </span>
+                        ) : null}
+                        {p.matchType === 'fuzzy' && p.rawName !== p.name ? (
+                          <span className="tiny-inline">听到：{p.rawName}</span>
+                        ) : null}
+                      </div>
+                      <div className="preview-score">
+                        {edit.kind === 'score'
+                          ? `${edit.late ? '补交 ' : ''}${edit.pair.score}`
+                          : edit.kind === 'status'
+                            ? ENTRY_STATUS_LABELS[edit.status]
+                            : '删除'}
+                      </div>
                     </div>
-                    <div className="preview-score">{p.score}</div>
-                  </div>
-                ))}
+                  )
+                })}
               </div>
             )}
           </section>
         </section>
 
+        {aiReview ? (
+          <section className="panel">
+            <div className="panel-title">核对 AI 匹配结果（{aiProviderImpl.label}）</div>
+            <div className="panel-subtitle">
+              逐行比较本地解析、AI 匹配与登记表现有成绩；标黄的行存在分歧。选择每行采用哪一方，确认后才会写入登记表。提示词版本：
+              <span className="mono">{aiReview.promptVersion}</span>
+            </div>
+            <div className="ai-actions">
+              <button className="btn" onClick={() => setAiReviewChoice(null, 'ai')}>
+                全部采用 AI
+              </button>
+              <button className="btn" onClick={() => setAiReviewChoice(null, 'local')}>
+                全部采用本地
+              </button>
+              <button className="btn" onClick={() => setAiReviewChoice(null, 'skip')}>
+                全部不写入
+              </button>
+            </div>
+            <div className="review">
+              <div className="review-row review-head">
+                <div>学生</div>
+                <div>本地解析</div>
+                <div>AI 匹配</div>
+                <div>登记表现有</div>
+                <div>采用</div>
+              </div>
+              {aiReview.rows.map((row) => {
+                const { current, disagreements } = aiReviewTableState(row, entries)
+                return (
+                  <div key={row.key} className={`review-row ${disagreements.length ? 'review-conflict' : ''}`}>
+                    <div>
+                      <div className="preview-name">
+                        {row.studentId ? `${row.studentId} ` : ''}
+                        {row.name}
+                      </div>
+                      {disagreements.length ? <div className="tiny-inline">{disagreements.join('；')}</div> : null}
+                    </div>
+                    <div>
+                      {row.local ? (
+                        <>
+                          <span className="review-score">
+                            {row.localLate ? '补交 ' : ''}
+                            {row.local.score}
+                          </span>{' '}
+                          <span className={`tag tag-${row.local.matchType}`}>
+                            {row.local.matchType === 'exact'
+                              ? '花名册匹配'
+                              : row.local.matchType === 'fuzzy'
+                                ? `近音 ${Math.round(row.local.confidence * 100)}%`
+                                : '未匹配'}
+                          </span>
+                          <div className="tiny-inline">听到：{row.local.source}</div>
+                        </>
+                      ) : (
+                        <span className="tiny-inline">—</span>
+                      )}
+                    </div>
+                    <div>
+                      {row.ai ? (
+                        <span className="review-score">{row.ai.score}</span>
+                      ) : (
+                        <span className="tiny-inline">—</span>
+                      )}
+                    </div>
+                    <div>
+                      {current !== null && current !== '' ? (
+                        current
+                      ) : (
+                        <span className="tiny-inline">{current === null ? '无此行' : '空'}</span>
+                      )}
+                    </div>
+                    <div>
+                      <select
+                        className="input select"
+                        value={row.choice}
+                        onChange={(e) => setAiReviewChoice(row.key, e.target.value as AiReviewChoice)}
+                        aria-label={`${row.name} 采用`}
+                      >
+                        {row.ai ? <option value="ai">AI</option> : null}
+                        {row.local ? <option value="local">本地</option> : null}
+                        <option value="skip">不写入</option>
+                      </select>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="ai-actions">
+              <button className="btn btn-primary" onClick={commitAiReview}>
+                确认写入登记表
+              </button>
+              <button className="btn btn-danger" onClick={discardAiReview}>
+                放弃
+              </button>
+            </div>
+          </section>
+        ) : null}
+
         <section className="panel">
-          <div className="panel-title">结构化数据：今日登记表（可编辑）</div>
+          <div className="panel-title">结构化数据：登记表（可编辑，自动保存）</div>
           <div className="panel-subtitle">
-            可直接修改学号/姓名/成绩；学号或姓名输入框支持花名册联想（姓名重名时建议用学号）。
+            可直接修改学号/姓名/成绩/状态/评语；学号或姓名输入框支持花名册联想（姓名重名时建议用学号）。
           </div>
 
+          <div className="tiny">
+            {(Object.keys(ENTRY_STATUS_LABELS) as EntryStatus[])
+              .map((st) => `${ENTRY_STATUS_LABELS[st]} ${statusCounts[st]}`)
+              .join(' · ')}
+            {` · 未评 ${pendingStudents.length}`}
+          </div>
+          {pendingStudents.length ? (
+            <details className="pending">
+              <summary>未评名单（花名册中尚无成绩或状态的学生，{pendingStudents.length} 人）</summary>
+              <div className="chips">
+                {pendingStudents.map((r) => (
+                  <span className="chip" key={r.studentId || r.name}>
+                    {r.studentId ? `${r.studentId} ` : ''}
+                    {r.name}
+                    <button className="chip-btn" onClick={() => markPendingStudent(r, 'missing')}>
+                      缺交
+                    </button>
+                    <button className="chip-btn" onClick={() => markPendingStudent(r, 'excused')}>
+                      请假
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </details>
+          ) : roster.length ? (
+            <div className="tiny">花名册中的学生均已录入成绩或状态。</div>
+          ) : null}
+
           <div className="table-actions">
             <button className="btn" onClick={addEmptyRow}>
               + 添加一行
             </button>
-            <button className="btn btn-primary" onClick={exportNow} disabled={entries.length === 0}>
+            {commentDraftLoading ? (
+              <button className="btn btn-danger" onClick={cancelDraftComments}>
+                取消起草
+                {commentDraftProgress && commentDraftProgress.total > 1
+                  ? `（${commentDraftProgress.done}/${commentDraftProgress.total} 批）`
+                  : ''}
+              </button>
+            ) : (
+              <button
+                className="btn"
+                onClick={() => void draftComments()}
+                disabled={!aiReady || entries.length === 0}
+                title={aiReady ? '为尚无评语的已评学生起草评语' : '需先配置 AI'}
+              >
+                AI 起草评语
+              </button>
+            )}
+            <button className="btn btn-primary" onClick={exportNow} disabled={entries.length === 0 && pendingStudents.length === 0}>
               导出 Excel
             </button>
+            <label className={`btn file-btn ${isRecording ? 'disabled' : ''}`}>
+              导入已导出的成绩表…
+              <input
+                type="file"
+                accept=".xlsx,.xls"
+                disabled={isRecording}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void importGradeSheet(file)
+                }}
+              />
+            </label>
           </div>
 
+          {commentDraftStatus ? (
+            <div className={`hint ${commentDraftStatus.includes('失败') ? 'danger' : ''}`}>{commentDraftStatus}</div>
+          ) : null}
+
           <datalist id="rosterNames">
             {rosterNames.map((n) => (
               <option key={n} value={n} />
@@ -1835,7 +3059,9 @@ function App() {
               <div className="table-head">
                 <div>学号</div>
                 <div>姓名</div>
-                <div>成绩（0-100）</div>
+                <div>成绩（{gradingScale.kind === 'numeric' ? `0-${gradingScale.max}` : '等级'}）</div>
+                <div>状态</div>
+                <div>评语</div>
                 <div />
               </div>
               {entries.map((row) => (
@@ -1884,21 +3110,79 @@ function App() {
                     }
                     placeholder="例如：张三"
                   />
+                  {gradingScale.kind === 'levels' ? (
+                    <select
+                      className="input select"
+                      value={String(row.score)}
+                      title={row.scorePromptVersion ? `AI 匹配（提示词 ${row.scorePromptVersion}）` : undefined}
+                      onChange={(e) => {
+                        const v = e.target.value
+                        setEntries((prev) =>
+                          prev.map((r) => (r.id === row.id ? withEntryScore(r, v) : r)),
+                        )
+                      }}
+                    >
+                      <option value="">{row.status === 'missing' || row.status === 'excused' ? ENTRY_STATUS_LABELS[row.status] : '（未评）'}</option>
+                      {gradingScale.levels.map((l) => (
+                        <option key={l.label} value={l.label}>
+                          {l.label}
+                        </option>
+                      ))}
+                      {row.score !== '' && !gradingScale.levels.some((l) => l.label === row.score) ? (
+                        <option value={String(row.score)}>{row.score}（不在当前评分制）</option>
+                      ) : null}
+                    </select>
+                  ) : (
+                    <input
+                      className="input"
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      max={gradingScale.max}
+                      step={gradingScale.step}
+                      value={row.score}
+                      title={row.scorePromptVersion ? `AI 匹配（提示词 ${row.scorePromptVersion}）` : undefined}
+                      onChange={(e) => {
+                        const v = e.target.value
+                        const n = v === '' ? '' : clampScore(Number(v), gradingScale.max) ?? ''
+                        setEntries((prev) =>
+                          prev.map((r) => (r.id === row.id ? withEntryScore(r, n) : r)),
+                        )
+                      }}
+                      placeholder={
+                        row.status === 'missing' || row.status === 'excused'
+                          ? ENTRY_STATUS_LABELS[row.status]
+                          : `例如：${Math.round(gradingScale.max * 0.9)}`
+                      }
+                    />
+                  )}
+                  <select
+                    className="input select"
+                    value={row.status && row.status !== 'graded' ? row.status : 'graded'}
+                    onChange={(e) => {
+                      const next = e.target.value as EntryStatus
+                      setEntries((prev) => prev.map((r) => (r.id === row.id ? withEntryStatus(r, next) : r)))
+                    }}
+                    aria-label="状态"
+                  >
+                    {(Object.keys(ENTRY_STATUS_LABELS) as EntryStatus[]).map((st) => (
+                      <option key={st} value={st}>
+                        {st === 'graded' && row.score === '' ? '未评' : ENTRY_STATUS_LABELS[st]}
+                      </option>
+                    ))}
+                  </select>
                   <input
                     className="input"
-                    type="number"
-                    inputMode="numeric"
-                    min={0}
-                    max={100}
-                    value={row.score}
+                    value={row.comment ?? ''}
                     onChange={(e) => {
-                      const v = e.target.value
-                      const n = v === '' ? '' : clampScore(Number(v)) ?? ''
+                      const comment = e.target.value
                       setEntries((prev) =>
-                        prev.map((r) => (r.id === row.id ? { ...r, score: n } : r)),
+                        prev.map((r) => (r.id === row.id ? { ...r, comment, commentPromptVersion: undefined } : r)),
                       )
                     }}
-                    placeholder="例如：95"
+                    placeholder="（可选）"
+                    title={row.commentPromptVersion ? `AI 起草（提示词 ${row.commentPromptVersion}）` : undefined}
+                    aria-label="评语"
                   />
                   <button
                     className="btn btn-ghost"
@@ -1913,6 +3197,44 @@ function App() {
             </div>
           )}
         </section>
+
+        <section className="panel">
+          <div className="panel-title">班级统计（当前作业）</div>
+          <div className="panel-subtitle">
+            随登记表实时更新；及格线 {PASS_PERCENT}%、优秀线 {EXCELLENT_PERCENT}%（按满分换算），导出 Excel 时写入“统计”工作表。
+          </div>
+          {!scoreStats ? (
+            <div className="empty">（尚无成绩，暂无统计）</div>
+          ) : (
+            <div className="stats">
+              <div className="stats-grid">
+                {scoreStatsItems(scoreStats, gradingScale).map(([label, value]) => (
+                  <div className="stat" key={label}>
+                    <div className="stat-label">{label}</div>
+                    <div className="stat-value">{value}</div>
+                  </div>
+                ))}
+              </div>
+              <div
+                className="histogram"
+                aria-label={gradingScale.kind === 'levels' ? '等级分布' : `分数段分布（满分 ${gradingScale.max}）`}
+              >
+                {scoreStats.histogram.map((b) => (
+                  <div className="histogram-row" key={b.label}>
+                    <div className="histogram-label">{b.label}</div>
+                    <div className="histogram-track">
+                      <div
+                        className="histogram-bar"
+                        style={{ width: `${scoreStats.count ? (b.count / scoreStats.count) * 100 : 0}%` }}
+                      />
+                    </div>
+                    <div className="histogram-count">{b.count}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </section>
       </main>
 
       <footer className="footer">
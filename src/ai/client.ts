@@ -0,0 +1,346 @@
+import { isAbortError, sleep } from '../utils.ts'
+
+export type AiProviderId = 'gemini' | 'qwen' | 'openai' | 'mock'
+
+async function readHttpErrorDetails(res: Response) {
+  // The body can only be read once, so read text and re-encode JSON compactly.
+  const text = await res.text().catch(() => '')
+  try {
+    return JSON.stringify(JSON.parse(text))
+  } catch {
+    return text
+  }
+}
+
+// Shared request layer for every AI call: timeout, retries with backoff, and errors the UI can explain.
+type AiErrorKind = 'auth' | 'quota' | 'model-not-found' | 'network' | 'cors' | 'timeout' | 'server' | 'other'
+
+const AI_ERROR_LABELS: Record<AiErrorKind, string> = {
+  auth: 'API Key 无效或无权限',
+  quota: '请求过于频繁或配额已用完',
+  'model-not-found': '模型不存在或当前 Key 不可用',
+  network: '网络连接失败',
+  cors: '浏览器跨域（CORS）拦截',
+  timeout: '请求超时',
+  server: 'AI 服务暂时不可用',
+  other: '请求失败',
+}
+
+const AI_ERROR_HINTS: Record<AiErrorKind, string> = {
+  auth: '请检查 API Key 是否填写正确、是否已开通对应服务。',
+  quota: '请稍后再试，或到服务商控制台检查配额 / 账单。',
+  'model-not-found': '请点击“刷新模型列表”，选择当前 Key 支持的模型。',
+  network: '请检查网络或代理地址是否可访问。',
+  cors: '该服务不允许浏览器直连，请改用“本地代理”调用方式。',
+  timeout: '可在“超时”中调大时间，或换用更快的模型。',
+  server: '服务端繁忙，已自动重试；请稍后再试。',
+  other: '',
+}
+
+class AiRequestError extends Error {
+  readonly kind: AiErrorKind
+  readonly status?: number
+
+  constructor(kind: AiErrorKind, message: string, status?: number) {
+    super(message)
+    this.name = 'AiRequestError'
+    this.kind = kind
+    this.status = status
+  }
+}
+
+const AI_RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504])
+const AI_RETRY_BASE_DELAY_MS = 800
+// A Retry-After longer than this is not worth blocking the page for; the error is reported instead.
+const AI_RETRY_MAX_DELAY_MS = 20_000
+export const AI_DEFAULT_TIMEOUT_MS = 30_000
+export const AI_DEFAULT_RETRIES = 2
+
+// Exactly what is sent over the network, for the privacy log (API keys in the URL are masked).
+export type AiOutboundRequest = {
+  url: string
+  method: string
+  // Lower-case names, as fetch sends them; Authorization is masked
+  headers: Record<string, string>
+  body: string
+}
+
+// X-Class-Name is sent URI-encoded; the log shows it readable too
+export function safeDecodeURIComponent(value: string) {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function loggedRequestHeaders(headers: HeadersInit | undefined) {
+  const out: Record<string, string> = {}
+  new Headers(headers).forEach((value, name) => {
+    out[name] = name === 'authorization' ? value.replace(/^(\S+\s+)?.*$/, '$1***') : value
+  })
+  return out
+}
+
+export type AiRequestOptions = {
+  // Used as the error prefix, e.g. "Gemini API 请求失败"
+  label: string
+  timeoutMs: number
+  retries: number
+  onRequest?: (req: AiOutboundRequest) => void
+  signal?: AbortSignal
+  // The mock provider answers in-page; everything else goes over the network
+  fetchImpl?: typeof fetch
+}
+
+function classifyAiHttpError(status: number, details: string): AiErrorKind {
+  if (/API[_ ]?KEY[_ ]?INVALID|API key not valid|InvalidApiKey|invalid[_ ]api[_ ]key|Incorrect API key/i.test(details)) {
+    return 'auth'
+  }
+  if (status === 401 || status === 403) return 'auth'
+  if (/model.{0,40}(not found|not exist|does not exist|not supported)|ModelNotFound|model_not_found/i.test(details)) {
+    return 'model-not-found'
+  }
+  if (status === 404) return 'model-not-found'
+  if (status === 429 || /RESOURCE_EXHAUSTED|Throttling|Arrearage|insufficient_quota|quota/i.test(details)) return 'quota'
+  if (status === 408) return 'timeout'
+  if (status >= 500) return 'server'
+  return 'other'
+}
+
+/** Retry-After is either seconds or an HTTP date. */
+function retryAfterMs(res: Response) {
+  const value = res.headers.get('retry-after')
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+function backoffDelayMs(attempt: number) {
+  return AI_RETRY_BASE_DELAY_MS * 2 ** attempt * (0.75 + Math.random() * 0.5)
+}
+
+/**
+ * fetch() only says "Failed to fetch" for both an unreachable host and a CORS rejection.
+ * An opaque no-cors request tells them apart: it succeeds when the host answers at all.
+ * Only the bare origin is probed, so no path, query string or key is sent a second time.
+ */
+async function networkFailureKind(url: string, onRequest?: (req: AiOutboundRequest) => void): Promise<AiErrorKind> {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return 'network'
+  let origin: string
+  try {
+    origin = new URL(url).origin
+  } catch {
+    return 'network'
+  }
+  onRequest?.({ url: `${origin}/`, method: 'HEAD', headers: {}, body: '' })
+  try {
+    await fetch(`${origin}/`, { method: 'HEAD', mode: 'no-cors', credentials: 'omit', signal: AbortSignal.timeout(5000) })
+    return 'cors'
+  } catch {
+    return 'network'
+  }
+}
+
+export async function aiFetch(url: string, init: RequestInit, options: AiRequestOptions): Promise<Response> {
+  const { label, timeoutMs, retries, onRequest, signal, fetchImpl } = options
+  for (let attempt = 0; ; attempt++) {
+    onRequest?.({
+      url: url.replace(/([?&]key=)[^&]*/, '$1***'),
+      method: init.method ?? 'GET',
+      headers: loggedRequestHeaders(init.headers),
+      // Photos are sent inline; the log shows their size instead of the base64 payload
+      body:
+        typeof init.body === 'string'
+          ? init.body.replace(/[A-Za-z0-9+/]{512,}={0,2}/g, (m) => `<图片数据 ${Math.round((m.length * 3) / 4 / 1024)} KB>`)
+          : '',
+    })
+    const ac = new AbortController()
+    let timedOut = false
+    const timer = setTimeout(() => {
+      timedOut = true
+      ac.abort()
+    }, timeoutMs)
+    const onAbort = () => ac.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    let error: AiRequestError
+    let waitMs: number | null = null
+    try {
+      const res = fetchImpl ? await fetchImpl(url, { ...init, signal: ac.signal }) : await fetch(url, { ...init, signal: ac.signal })
+      if (res.ok) {
+        // Read the body while the timeout still runs: a stalled response would otherwise hang the caller
+        const text = await res.text()
+        return new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers })
+      }
+      const details = await readHttpErrorDetails(res)
+      error = new AiRequestError(
+        classifyAiHttpError(res.status, details),
+        `${label}：HTTP ${res.status} ${res.statusText}${details ? ` - ${details}` : ''}`,
+        res.status,
+      )
+      if (AI_RETRYABLE_STATUS.has(res.status)) waitMs = retryAfterMs(res) ?? backoffDelayMs(attempt)
+    } catch (e) {
+      // fetch() rejects on abort, timeout, or when no response arrived at all
+      if (signal?.aborted) throw e
+      if (timedOut) {
+        error = new AiRequestError('timeout', `${label}：${Math.round(timeoutMs / 1000)} 秒内未响应`)
+        waitMs = backoffDelayMs(attempt)
+      } else {
+        const kind = await networkFailureKind(url, onRequest)
+        error = new AiRequestError(kind, `${label}：${(e as Error).message || '无法连接'}`)
+        // A CORS rejection will not change on retry
+        if (kind === 'network') waitMs = backoffDelayMs(attempt)
+      }
+    } finally {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+
+    if (waitMs === null || attempt >= retries || waitMs > AI_RETRY_MAX_DELAY_MS) throw error
+    await sleep(waitMs, signal)
+  }
+}
+
+/** One status line for a failed AI call: what kind of failure, the raw message, and what to do. */
+export function describeAiError(e: unknown, fallback: string) {
+  if (e instanceof AiRequestError) {
+    const hint = AI_ERROR_HINTS[e.kind]
+    return `${AI_ERROR_LABELS[e.kind]}（${e.message}）${hint ? ` ${hint}` : ''}`
+  }
+  return (e as Error)?.message || fallback
+}
+
+// The bundled proxy (server/ai-proxy.mjs) holds the vendor keys; the browser only says which class is calling.
+export type AiProxySettings = {
+  url: string
+  className: string
+}
+
+// Every AI backend (cloud or self-hosted) is reached through this small interface, so the
+// prompts, response parsing and roster validation below are written once for all of them.
+export type AiProviderConfig = {
+  apiKey: string
+  model: string
+  // Only used by providers with a configurable endpoint (OpenAI-compatible servers).
+  baseUrl: string
+  // null: call the vendor directly with apiKey from the browser.
+  proxy: AiProxySettings | null
+  timeoutMs: number
+  retries: number
+  onRequest?: (req: AiOutboundRequest) => void
+  onCall?: (report: AiCallReport) => void
+}
+
+export function aiRequestOptions(config: AiProviderConfig, label: string, signal?: AbortSignal): AiRequestOptions {
+  return { label, timeoutMs: config.timeoutMs, retries: config.retries, onRequest: config.onRequest, signal }
+}
+
+export function aiProxyEndpoint(proxy: AiProxySettings, path: string) {
+  return `${proxy.url.trim().replace(/\/+$/, '')}${path}`
+}
+
+export function aiProxyHeaders(proxy: AiProxySettings | null): Record<string, string> {
+  // Header values must be ASCII, class names usually are not.
+  return proxy ? { 'X-Class-Name': encodeURIComponent(proxy.className.trim()) } : {}
+}
+
+// The subset of JSON Schema that Gemini's responseSchema understands; also used to validate replies locally.
+export type AiJsonSchema =
+  | { type: 'object'; properties: Record<string, AiJsonSchema>; required: string[] }
+  | { type: 'array'; items: AiJsonSchema }
+  | { type: 'string'; enum?: string[] }
+  | { type: 'number' }
+
+// A paper class list (names, optionally with ids) or a hand-marked score sheet
+export type AiPhotoMode = 'roster' | 'scores'
+
+export type AiImage = {
+  mimeType: string
+  // base64 without the data: prefix
+  data: string
+}
+
+export type AiTextRequest = {
+  config: AiProviderConfig
+  prompt: string
+  temperature: number
+  maxTokens: number
+  // Ask the provider for JSON output (schema-constrained where supported).
+  jsonSchema?: AiJsonSchema
+  // Sent alongside the prompt; needs a vision-capable model
+  images?: AiImage[]
+  signal?: AbortSignal
+}
+
+export type AiTokenUsage = {
+  inputTokens: number
+  outputTokens: number
+}
+
+export type AiTextResult = {
+  text: string
+  // null when the vendor reply carries no usage block (some self-hosted servers)
+  usage: AiTokenUsage | null
+}
+
+export type AiProvider = {
+  id: AiProviderId
+  label: string
+  // Local servers such as Ollama accept requests without a key.
+  keyOptional: boolean
+  generateText: (req: AiTextRequest) => Promise<AiTextResult>
+  listModels?: (params: { config: AiProviderConfig; signal?: AbortSignal }) => Promise<string[]>
+}
+
+type AiCallPurpose = 'score-matching' | 'roster-extraction' | 'comment-drafting' | 'photo-extraction' | 'model-listing'
+
+export const AI_CALL_PURPOSE_LABELS: Record<AiCallPurpose, string> = {
+  'score-matching': '成绩匹配',
+  'roster-extraction': '花名册提取',
+  'comment-drafting': '评语起草',
+  'photo-extraction': '照片识别',
+  'model-listing': '模型列表',
+}
+
+// One finished call (successful or not; cancelled calls are not reported), for usage accounting
+export type AiCallReport = {
+  providerId: AiProviderId
+  model: string
+  purpose: AiCallPurpose
+  usage: AiTokenUsage | null
+  latencyMs: number
+  ok: boolean
+}
+
+/** Run one AI call and report its usage and latency through `config.onCall`. */
+export async function trackAiCall<T>(
+  config: AiProviderConfig,
+  call: { providerId: AiProviderId; purpose: AiCallPurpose },
+  run: () => Promise<T>,
+  usageOf: (result: T) => AiTokenUsage | null = () => null,
+): Promise<T> {
+  const startedAt = Date.now()
+  const report = (ok: boolean, usage: AiTokenUsage | null) =>
+    config.onCall?.({ ...call, model: config.model, usage, latencyMs: Date.now() - startedAt, ok })
+  try {
+    const result = await run()
+    report(true, usageOf(result))
+    return result
+  } catch (e) {
+    if (!isAbortError(e)) report(false, null)
+    throw e
+  }
+}
+
+export async function aiGenerateText(provider: AiProvider, purpose: AiCallPurpose, req: AiTextRequest): Promise<string> {
+  const result = await trackAiCall(
+    req.config,
+    { providerId: provider.id, purpose },
+    () => provider.generateText(req),
+    (r) => r.usage,
+  )
+  return result.text
+}
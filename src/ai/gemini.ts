@@ -0,0 +1,143 @@
+import {
+  type AiImage,
+  type AiJsonSchema,
+  type AiProviderConfig,
+  type AiTextRequest,
+  type AiTextResult,
+  type AiTokenUsage,
+  aiFetch,
+  aiProxyEndpoint,
+  aiProxyHeaders,
+  aiRequestOptions,
+} from './client.ts'
+
+export type GeminiGenerateContentResponse = {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text?: string
+      }>
+    }
+  }>
+  usageMetadata?: {
+    promptTokenCount?: number
+    candidatesTokenCount?: number
+    // Thinking models bill these as output
+    thoughtsTokenCount?: number
+  }
+}
+
+export type GeminiModelInfo = {
+  name: string // e.g. "models/gemini-2.0-flash"
+  displayName?: string
+  description?: string
+  supportedGenerationMethods?: string[]
+}
+
+export function normalizeGeminiModelSegment(model: string) {
+  const m = model.trim()
+  if (!m) return ''
+  return m.startsWith('models/') ? m.slice('models/'.length) : m
+}
+
+export function geminiModelDisplayName(modelName: string) {
+  return modelName.replace(/^models\//, '')
+}
+
+function geminiEndpoint(config: AiProviderConfig, path: string) {
+  if (config.proxy) return aiProxyEndpoint(config.proxy, `/gemini/v1beta${path}`)
+  return `https://generativelanguage.googleapis.com/v1beta${path}?key=${encodeURIComponent(config.apiKey)}`
+}
+
+export async function geminiListModels(params: {
+  config: AiProviderConfig
+  signal?: AbortSignal
+}): Promise<GeminiModelInfo[]> {
+  const { config, signal } = params
+  const res = await aiFetch(
+    geminiEndpoint(config, '/models'),
+    { headers: aiProxyHeaders(config.proxy) },
+    aiRequestOptions(config, '获取 Gemini 模型列表失败', signal),
+  )
+  const data = (await res.json()) as { models?: GeminiModelInfo[] }
+  return data.models ?? []
+}
+
+function geminiResponseSchema(schema: AiJsonSchema): Record<string, unknown> {
+  switch (schema.type) {
+    case 'object':
+      return {
+        type: 'OBJECT',
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, geminiResponseSchema(v)])),
+        required: schema.required,
+      }
+    case 'array':
+      return { type: 'ARRAY', items: geminiResponseSchema(schema.items) }
+    case 'string':
+      return schema.enum ? { type: 'STRING', enum: schema.enum } : { type: 'STRING' }
+    case 'number':
+      return { type: 'NUMBER' }
+  }
+}
+
+export type GeminiGenerateContentRequest = {
+  contents: Array<{
+    role: string
+    parts: Array<{ text?: string; inlineData?: AiImage }>
+  }>
+  generationConfig: Record<string, unknown>
+}
+
+export function geminiRequestBody(req: AiTextRequest): GeminiGenerateContentRequest {
+  const { prompt, temperature, maxTokens, jsonSchema, images = [] } = req
+  return {
+    contents: [
+      {
+        role: 'user',
+        parts: [{ text: prompt }, ...images.map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } }))],
+      },
+    ],
+    generationConfig: {
+      temperature,
+      topP: 0.9,
+      maxOutputTokens: maxTokens,
+      ...(jsonSchema ? { responseMimeType: 'application/json', responseSchema: geminiResponseSchema(jsonSchema) } : {}),
+    },
+  }
+}
+
+export async function geminiGenerateText(req: AiTextRequest): Promise<AiTextResult> {
+  const { config, signal } = req
+  const endpoint = geminiEndpoint(
+    config,
+    `/models/${encodeURIComponent(normalizeGeminiModelSegment(config.model))}:generateContent`,
+  )
+
+  const res = await aiFetch(
+    endpoint,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...aiProxyHeaders(config.proxy) },
+      body: JSON.stringify(geminiRequestBody(req)),
+    },
+    aiRequestOptions(config, 'Gemini API 请求失败', signal),
+  )
+
+  const data = (await res.json()) as GeminiGenerateContentResponse
+  return { text: geminiResponseText(data), usage: geminiUsage(data) }
+}
+
+export function geminiUsage(data: GeminiGenerateContentResponse): AiTokenUsage | null {
+  const u = data.usageMetadata
+  if (!u) return null
+  return { inputTokens: u.promptTokenCount ?? 0, outputTokens: (u.candidatesTokenCount ?? 0) + (u.thoughtsTokenCount ?? 0) }
+}
+
+export function geminiResponseText(data: GeminiGenerateContentResponse) {
+  const parts = data.candidates?.[0]?.content?.parts ?? []
+  return parts
+    .map((p) => p.text ?? '')
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .join('\n')
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { jsonSchemaMismatch, parseAiJson, scoreItemSchema, scoreMatchingSchema } from './json.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const [percent, , , level4] = GRADING_SCALE_PRESETS
+
+describe('parseAiJson', () => {
+  it('reads JSON inside markdown fences or surrounded by chatter', () => {
+    expect(parseAiJson('```json\n{"items":[]}\n```')).toEqual({ items: [] })
+    expect(parseAiJson('好的，结果如下：{"items":[{"name":"张三"}]} 请核对。')).toEqual({ items: [{ name: '张三' }] })
+    expect(parseAiJson('结果：[1, 2]')).toEqual([1, 2])
+  })
+
+  it('reports replies that hold no JSON', () => {
+    expect(() => parseAiJson('抱歉，我无法识别。')).toThrow('不是有效 JSON')
+  })
+})
+
+describe('jsonSchemaMismatch', () => {
+  const schema = scoreMatchingSchema(percent)
+  const check = (items: unknown) => jsonSchemaMismatch({ items }, schema, '')
+
+  it('accepts items that fit, tolerating numbers quoted as strings', () => {
+    expect(check([{ studentId: '202401', name: '张三', score: 90 }])).toBeNull()
+    expect(check([{ studentId: '', name: '张三', score: '85.5' }])).toBeNull()
+  })
+
+  it('names the field that does not fit', () => {
+    expect(jsonSchemaMismatch({}, schema, '')).toBe('缺少字段 items')
+    expect(jsonSchemaMismatch({ items: {} }, schema, '')).toBe('items 应为数组')
+    expect(jsonSchemaMismatch([], schema, '')).toBe('返回值 应为对象')
+    expect(jsonSchemaMismatch({ studentId: '', name: '张三', score: '九十' }, scoreItemSchema(percent), '')).toBe('score 应为数字')
+    expect(jsonSchemaMismatch({ studentId: '', score: 90 }, scoreItemSchema(percent), '')).toBe('缺少字段 name')
+  })
+
+  it('limits level grades to the labels of the scale', () => {
+    const item = scoreItemSchema(level4)
+    expect(jsonSchemaMismatch({ studentId: '', name: '张三', score: '良' }, item, '')).toBeNull()
+    expect(jsonSchemaMismatch({ studentId: '', name: '张三', score: 'A' }, item, '')).toBe('score 应为 优/良/中/差 之一')
+  })
+})
@@ -0,0 +1,94 @@
+import type { GradingScale } from '../grading.ts'
+import type { AiJsonSchema } from './client.ts'
+
+export function extractJsonArrayFromText(text: string) {
+  const trimmed = text.trim()
+  // Prefer full JSON array
+  const firstArr = trimmed.indexOf('[')
+  const lastArr = trimmed.lastIndexOf(']')
+  if (firstArr !== -1 && lastArr !== -1 && lastArr > firstArr) {
+    const json = trimmed.slice(firstArr, lastArr + 1)
+    return json
+  }
+  return null
+}
+
+export function scoreItemSchema(gradingScale: GradingScale): AiJsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      studentId: { type: 'string' },
+      name: { type: 'string' },
+      score:
+        gradingScale.kind === 'numeric'
+          ? { type: 'number' }
+          : { type: 'string', enum: gradingScale.levels.map((l) => l.label) },
+    },
+    required: ['studentId', 'name', 'score'],
+  }
+}
+
+// Structured reply for score matching: an object wrapper because Qwen/OpenAI JSON mode require a top-level object.
+export function scoreMatchingSchema(gradingScale: GradingScale): AiJsonSchema {
+  return {
+    type: 'object',
+    properties: { items: { type: 'array', items: scoreItemSchema(gradingScale) } },
+    required: ['items'],
+  }
+}
+
+/** Why a value does not fit the schema, or null when it does. Numbers quoted as strings are tolerated. */
+export function jsonSchemaMismatch(value: unknown, schema: AiJsonSchema, path: string): string | null {
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return `${path || '返回值'} 应为对象`
+      const obj = value as Record<string, unknown>
+      for (const key of schema.required) {
+        if (obj[key] === undefined || obj[key] === null) return `缺少字段 ${path ? `${path}.` : ''}${key}`
+      }
+      for (const [key, sub] of Object.entries(schema.properties)) {
+        if (obj[key] === undefined || obj[key] === null) continue
+        const mismatch = jsonSchemaMismatch(obj[key], sub, path ? `${path}.${key}` : key)
+        if (mismatch) return mismatch
+      }
+      return null
+    }
+    case 'array':
+      return Array.isArray(value) ? null : `${path || '返回值'} 应为数组`
+    case 'string':
+      if (typeof value !== 'string' && typeof value !== 'number') return `${path} 应为字符串`
+      if (schema.enum && !schema.enum.includes(String(value).trim())) return `${path} 应为 ${schema.enum.join('/')} 之一`
+      return null
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return null
+      if (typeof value === 'string' && /^\s*-?\d+(?:\.\d+)?\s*$/.test(value)) return null
+      return `${path} 应为数字`
+  }
+}
+
+/** Parses a model reply that should be JSON; tolerates markdown fences and chatter around the JSON. */
+export function parseAiJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    // Fall back to the outermost object / array in the text
+  }
+  for (const [open, close] of [
+    ['{', '}'],
+    ['[', ']'],
+  ]) {
+    const first = trimmed.indexOf(open)
+    const last = trimmed.lastIndexOf(close)
+    if (first === -1 || last <= first) continue
+    try {
+      return JSON.parse(trimmed.slice(first, last + 1))
+    } catch {
+      // try the next shape
+    }
+  }
+  throw new Error(`AI 返回的内容不是有效 JSON：${trimmed.slice(0, 120)}${trimmed.length > 120 ? '…' : ''}`)
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import type { AiOutboundRequest, AiProviderConfig } from './client.ts'
+import { mockAiFetch } from './mock.ts'
+import { resolvePromptTemplate } from './prompts.ts'
+import { AI_PROVIDERS } from './providers.ts'
+import { aiParseHomeworkScores } from './tasks.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const roster = [
+  { studentId: '2024001', name: '张三' },
+  { studentId: '2024002', name: '李四' },
+]
+const percent = GRADING_SCALE_PRESETS[0]
+
+function mockConfig(model: string, sent: AiOutboundRequest[] = []): AiProviderConfig {
+  return { apiKey: '', model, baseUrl: '', proxy: null, timeoutMs: 5000, retries: 0, onRequest: (req) => sent.push(req) }
+}
+
+describe('mock AI provider', () => {
+  it.each(['mock-gemini', 'mock-dashscope'])('answers score matching from the %s request body', async (model) => {
+    const sent: AiOutboundRequest[] = []
+    const result = await aiParseHomeworkScores({
+      provider: AI_PROVIDERS.mock,
+      config: mockConfig(model, sent),
+      transcript: '张三九十 李四八十五',
+      roster,
+      gradingScale: percent,
+      pseudonymize: false,
+      promptTemplate: resolvePromptTemplate('score-matching', {}),
+      concurrency: 1,
+    })
+
+    expect(result.records.map((r) => [r.studentId, r.name, r.score])).toEqual([
+      ['2024001', '张三', 90],
+      ['2024002', '李四', 85],
+    ])
+    expect(result.rejected).toEqual([])
+    // The call went through the shared request layer, so it shows up in the outbound log
+    expect(sent).toHaveLength(1)
+    expect(sent[0].url).toContain(model === 'mock-dashscope' ? '/dashscope/' : ':generateContent')
+    expect(sent[0].body).toContain('张三九十')
+  })
+
+  it('follows an edited prompt that keeps the section headings', async () => {
+    const result = await aiParseHomeworkScores({
+      provider: AI_PROVIDERS.mock,
+      config: mockConfig('mock-gemini'),
+      transcript: '李四七十',
+      roster,
+      gradingScale: percent,
+      pseudonymize: false,
+      promptTemplate: { text: '只输出 JSON。\n\n花名册：\n{{roster}}\n\n识别文本：\n{{transcript}}', version: 'test@1' },
+      concurrency: 1,
+    })
+    expect(result.records.map((r) => [r.name, r.score])).toEqual([['李四', 70]])
+  })
+
+  it('rejects requests that are not in a vendor shape', async () => {
+    const res = await mockAiFetch('mock://ai/gemini/v1beta/models/mock-gemini:generateContent', {
+      method: 'POST',
+      body: JSON.stringify({ prompt: '张三九十' }),
+    })
+    expect(res.status).toBe(400)
+  })
+
+  it('lists its models through the models endpoint', async () => {
+    const models = await AI_PROVIDERS.mock.listModels?.({ config: mockConfig('') })
+    expect(models).toEqual(['mock-gemini', 'mock-dashscope'])
+  })
+})
@@ -0,0 +1,257 @@
+import { FUZZY_AUTO_ACCEPT_CONFIDENCE, applyDictationEdits, parseDictation } from '../dictation.ts'
+import { ENTRY_STATUS_LABELS } from '../entries.ts'
+import {
+  GRADING_SCALE_CUSTOM,
+  GRADING_SCALE_PRESETS,
+  type GradeValue,
+  type GradingScale,
+  describeGradingScale,
+  gradeToPercent,
+  parseGrade,
+  resolveGradingScale,
+} from '../grading.ts'
+import { type RosterItem, normalizeRoster, uniqueNames } from '../roster.ts'
+import { EXCELLENT_PERCENT, PASS_PERCENT } from '../stats.ts'
+import {
+  type AiImage,
+  type AiProviderConfig,
+  type AiRequestOptions,
+  type AiTextRequest,
+  type AiTextResult,
+  aiFetch,
+  aiRequestOptions,
+} from './client.ts'
+import {
+  type GeminiGenerateContentRequest,
+  type GeminiGenerateContentResponse,
+  geminiRequestBody,
+  geminiResponseText,
+  geminiUsage,
+} from './gemini.ts'
+import { AI_PSEUDONYM_TOKEN_RE } from './privacy.ts'
+import {
+  type QwenGenerateRequest,
+  type QwenGenerateResponse,
+  qwenRequest,
+  qwenResponseText,
+  qwenUsage,
+} from './qwen.ts'
+import type { AiCommentStudent } from './tasks.ts'
+
+// Offline provider for development and automated tests. Requests go through aiFetch like every
+// other provider, but mockAiFetch plays the vendor: it reads the generateContent / DashScope request
+// body and answers the prompt with the same rule-based parser the app uses locally, so identical
+// input always gives identical output. The model name picks which vendor shape is used both ways.
+export const MOCK_AI_MODELS = ['mock-gemini', 'mock-dashscope'] as const
+const MOCK_AI_ORIGIN = 'mock://ai'
+
+const MOCK_ROSTER_NOISE_WORDS = new Set(['语文', '作业', '成绩', '名单', '班级', '缺勤', '男生', '女生', '学生', '同学'])
+
+// The mock only sees the prompt, so it looks for its input under the built-in section headings;
+// edited templates have to keep them for the mock to find anything.
+const MOCK_PROMPT_HEADINGS = ['花名册：', '识别文本：', '学生列表：', '原始文本：']
+
+/** The lines under `heading` up to the next known heading; null when the prompt has no such section. */
+function mockPromptSection(prompt: string, heading: string) {
+  const lines = prompt.split('\n')
+  const start = lines.findIndex((l) => l.trim() === heading)
+  if (start === -1) return null
+  const rest = lines.slice(start + 1)
+  const end = rest.findIndex((l) => MOCK_PROMPT_HEADINGS.includes(l.trim()))
+  return (end === -1 ? rest : rest.slice(0, end)).join('\n').trim()
+}
+
+function mockPromptJson(text: string | null): unknown {
+  if (text === null) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+/** The scale described in the prompt (see describeGradingScale); percent when it names none. */
+function mockPromptGradingScale(prompt: string): GradingScale {
+  const preset = GRADING_SCALE_PRESETS.find((sc) => prompt.includes(describeGradingScale(sc)))
+  if (preset) return preset
+  const custom = prompt.match(/0-(\d+(?:\.\d+)?) 的数字/)
+  return custom ? resolveGradingScale(GRADING_SCALE_CUSTOM, Number(custom[1])) : GRADING_SCALE_PRESETS[0]
+}
+
+function mockScoreAnswer(transcript: string, roster: RosterItem[], gradingScale: GradingScale) {
+  const edits = applyDictationEdits(parseDictation(transcript, roster, gradingScale))
+  const items = edits.flatMap((e) =>
+    e.kind === 'score' &&
+    (e.pair.matchType === 'exact' || (e.pair.matchType === 'fuzzy' && e.pair.confidence >= FUZZY_AUTO_ACCEPT_CONFIDENCE))
+      ? [{ studentId: e.pair.studentId, name: e.pair.name, score: e.pair.score }]
+      : [],
+  )
+  return JSON.stringify({ items })
+}
+
+/** Privacy-mode transcripts are token utterances ("[S1] 90；[S2]缺交；撤销上一个") that the name parser cannot read. */
+function mockTokenScoreAnswer(transcript: string, roster: RosterItem[], gradingScale: GradingScale) {
+  const byToken = new Map<string, RosterItem>()
+  for (const r of roster) {
+    byToken.set(r.name, r)
+    if (r.studentId) byToken.set(r.studentId, r)
+  }
+  // Each utterance sets or clears one student's score; an undo drops the utterance before it
+  const ops: Array<{ student: RosterItem; score: GradeValue | null }> = []
+  for (const u of transcript.split('；').map((t) => t.trim())) {
+    if (u === '撤销上一个') {
+      ops.pop()
+      continue
+    }
+    const m = u.match(/^(删除)?(\[[SNX]\d+\])(改成)?(补交)?\s*(.*)$/)
+    const student = m ? byToken.get(m[2]) : undefined
+    if (!m || !student) continue
+    ops.push({ student, score: m[1] ? null : parseGrade(m[5], gradingScale) })
+  }
+  const last = new Map<RosterItem, GradeValue | null>()
+  for (const op of ops) {
+    last.delete(op.student)
+    last.set(op.student, op.score)
+  }
+  const items = Array.from(last, ([student, score]) =>
+    score === null ? [] : [{ studentId: student.studentId, name: student.name, score }],
+  ).flat()
+  return JSON.stringify({ items })
+}
+
+function mockCommentAnswer(students: AiCommentStudent[], gradingScale: GradingScale) {
+  const items = students.map((st) => {
+    const percent = gradeToPercent(st.score, gradingScale)
+    const comment =
+      st.status === ENTRY_STATUS_LABELS.missing
+        ? '本次作业未交，请尽快补交。'
+        : st.status === ENTRY_STATUS_LABELS.excused
+          ? '请假期间的作业，返校后记得补做。'
+          : percent === null
+            ? '已完成本次作业，请认真订正。'
+            : percent >= EXCELLENT_PERCENT
+              ? '完成得很出色，书写认真，继续保持！'
+              : percent >= PASS_PERCENT
+                ? '基本掌握了本课内容，注意细节，争取更好。'
+                : '还需加强练习，订正后有问题及时来问老师。'
+    return { key: st.key, comment: st.status === ENTRY_STATUS_LABELS.late ? `已补交。${comment}` : comment }
+  })
+  return JSON.stringify({ items })
+}
+
+/** Answer a rendered prompt: which task it is follows from the sections it carries. */
+function mockAiAnswer(prompt: string, images: AiImage[]): string {
+  const gradingScale = mockPromptGradingScale(prompt)
+  const students = mockPromptJson(mockPromptSection(prompt, '学生列表：'))
+  if (Array.isArray(students)) return mockCommentAnswer(students as AiCommentStudent[], gradingScale)
+
+  const rosterJson = mockPromptJson(mockPromptSection(prompt, '花名册：'))
+  const roster = Array.isArray(rosterJson) ? (rosterJson as RosterItem[]) : null
+  const existingJson = mockPromptJson(prompt.match(/已有名单）：(\[.*\])/)?.[1] ?? null)
+  const existing = new Set(Array.isArray(existingJson) ? existingJson.map((n) => String(n)) : [])
+
+  if (images.length) {
+    // The mock cannot read pictures: a text/plain "photo" stands in for what a vision model would see
+    const seen = images
+      .filter((img) => img.mimeType.startsWith('text/'))
+      .map((img) => new TextDecoder().decode(Uint8Array.from(atob(img.data), (c) => c.charCodeAt(0))))
+      .join('\n')
+    if (roster) return mockScoreAnswer(seen, roster, gradingScale)
+    return JSON.stringify({ items: normalizeRoster(seen).filter((r) => !existing.has(r.name)) })
+  }
+
+  if (roster) {
+    const transcript = mockPromptSection(prompt, '识别文本：') ?? ''
+    return roster.some((r) => AI_PSEUDONYM_TOKEN_RE.test(r.name))
+      ? mockTokenScoreAnswer(transcript, roster, gradingScale)
+      : mockScoreAnswer(transcript, roster, gradingScale)
+  }
+
+  const names = (mockPromptSection(prompt, '原始文本：') ?? '')
+    .replace(/[（(][^）)]*[）)]/g, ' ')
+    .split(/[\s,，、;；。.:：|]+/g)
+    .map((t) => t.replace(/^\d+/, '').replace(/[^\u4e00-\u9fa5·]/g, ''))
+    .filter((t) => /^[\u4e00-\u9fa5·]{2,4}$/.test(t) && !MOCK_ROSTER_NOISE_WORDS.has(t) && !existing.has(t))
+  return JSON.stringify(uniqueNames(names))
+}
+
+/** Stands in for the vendor endpoints behind MOCK_AI_ORIGIN; replies in the vendor's own response shape. */
+export async function mockAiFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+  const path = String(input).slice(MOCK_AI_ORIGIN.length)
+  const json = (status: number, data: unknown) =>
+    new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } })
+
+  if (path === '/models') return json(200, { data: MOCK_AI_MODELS.map((id) => ({ id })) })
+
+  let body: unknown
+  try {
+    body = JSON.parse(String(init?.body ?? ''))
+  } catch {
+    return json(400, { error: { message: '请求体不是 JSON' } })
+  }
+
+  if (path.startsWith('/dashscope/')) {
+    const { input: qwenInput } = (body ?? {}) as Partial<QwenGenerateRequest>
+    const content = qwenInput?.messages?.[0]?.content ?? []
+    const prompt = qwenInput?.prompt ?? content.map((c) => c.text ?? '').join('')
+    const images = content.flatMap((c) => {
+      const m = c.image?.match(/^data:([^;]+);base64,(.*)$/)
+      return m ? [{ mimeType: m[1], data: m[2] }] : []
+    })
+    if (!prompt) return json(400, { code: 'InvalidParameter', message: 'input.prompt 或 input.messages 为空' })
+    const text = mockAiAnswer(prompt, images)
+    // Rough counts (one token per character) so the usage log has something to show
+    const data: QwenGenerateResponse = {
+      output: { choices: [{ message: { role: 'assistant', content: text } }] },
+      usage: { input_tokens: prompt.length, output_tokens: text.length },
+    }
+    return json(200, data)
+  }
+
+  if (path.startsWith('/gemini/') && path.endsWith(':generateContent')) {
+    const parts = ((body ?? {}) as Partial<GeminiGenerateContentRequest>).contents?.[0]?.parts ?? []
+    const prompt = parts.map((p) => p.text ?? '').join('')
+    const images = parts.flatMap((p) => (p.inlineData ? [p.inlineData] : []))
+    if (!prompt) return json(400, { error: { code: 400, message: 'contents[0].parts 中没有文本', status: 'INVALID_ARGUMENT' } })
+    const text = mockAiAnswer(prompt, images)
+    const data: GeminiGenerateContentResponse = {
+      candidates: [{ content: { parts: [{ text }] } }],
+      usageMetadata: { promptTokenCount: prompt.length, candidatesTokenCount: text.length },
+    }
+    return json(200, data)
+  }
+
+  return json(404, { error: { message: `模拟 AI 没有这个接口：${path}` } })
+}
+
+function mockRequestOptions(config: AiProviderConfig, label: string, signal?: AbortSignal): AiRequestOptions {
+  return { ...aiRequestOptions(config, label, signal), fetchImpl: mockAiFetch }
+}
+
+export async function mockGenerateText(req: AiTextRequest): Promise<AiTextResult> {
+  const { config, signal } = req
+  const options = mockRequestOptions(config, '模拟 AI 请求失败', signal)
+  const post = (body: unknown): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  })
+  if (config.model === 'mock-dashscope') {
+    const { path, body } = qwenRequest(req)
+    const res = await aiFetch(`${MOCK_AI_ORIGIN}/dashscope${path}`, post(body), options)
+    const data = (await res.json()) as QwenGenerateResponse
+    return { text: qwenResponseText(data), usage: qwenUsage(data) }
+  }
+  const model = encodeURIComponent(config.model || MOCK_AI_MODELS[0])
+  const res = await aiFetch(`${MOCK_AI_ORIGIN}/gemini/v1beta/models/${model}:generateContent`, post(geminiRequestBody(req)), options)
+  const data = (await res.json()) as GeminiGenerateContentResponse
+  return { text: geminiResponseText(data), usage: geminiUsage(data) }
+}
+
+export async function mockListModels(params: { config: AiProviderConfig; signal?: AbortSignal }): Promise<string[]> {
+  const { config, signal } = params
+  const res = await aiFetch(`${MOCK_AI_ORIGIN}/models`, {}, mockRequestOptions(config, '获取模拟模型列表失败', signal))
+  const data = (await res.json()) as { data?: Array<{ id?: string }> }
+  return (data.data ?? []).map((m) => String(m.id ?? '').trim()).filter(Boolean)
+}
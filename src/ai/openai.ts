@@ -0,0 +1,82 @@
+import {
+  type AiProviderConfig,
+  type AiTextRequest,
+  type AiTextResult,
+  aiFetch,
+  aiProxyEndpoint,
+  aiProxyHeaders,
+  aiRequestOptions,
+} from './client.ts'
+
+// Any server speaking the OpenAI chat-completions protocol (vLLM, Ollama's /v1, LM Studio, ...).
+export const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1'
+
+type OpenAiChatCompletionResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null
+    }
+  }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+  }
+}
+
+function openAiEndpoint(config: AiProviderConfig, path: string) {
+  if (config.proxy) return aiProxyEndpoint(config.proxy, `/openai${path}`)
+  const base = (config.baseUrl.trim() || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, '')
+  return `${base}${path}`
+}
+
+function openAiHeaders(config: AiProviderConfig): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...aiProxyHeaders(config.proxy) }
+  if (!config.proxy && config.apiKey.trim()) headers.Authorization = `Bearer ${config.apiKey.trim()}`
+  return headers
+}
+
+export async function openAiGenerateText(req: AiTextRequest): Promise<AiTextResult> {
+  const { config, prompt, temperature, maxTokens, jsonSchema, images = [], signal } = req
+  const content = images.length
+    ? [
+        { type: 'text', text: prompt },
+        ...images.map((img) => ({ type: 'image_url', image_url: { url: `data:${img.mimeType};base64,${img.data}` } })),
+      ]
+    : prompt
+  const res = await aiFetch(
+    openAiEndpoint(config, '/chat/completions'),
+    {
+      method: 'POST',
+      headers: openAiHeaders(config),
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'user', content }],
+        temperature,
+        max_tokens: maxTokens,
+        // json_object is the JSON mode most self-hosted servers (Ollama, vLLM, LM Studio) implement.
+        ...(jsonSchema ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    },
+    aiRequestOptions(config, 'OpenAI 兼容接口请求失败', signal),
+  )
+
+  const data = (await res.json()) as OpenAiChatCompletionResponse
+  const usage = data.usage
+    ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+    : null
+  return { text: String(data.choices?.[0]?.message?.content ?? '').trim(), usage }
+}
+
+export async function openAiListModels(params: { config: AiProviderConfig; signal?: AbortSignal }): Promise<string[]> {
+  const { config, signal } = params
+  const res = await aiFetch(
+    openAiEndpoint(config, '/models'),
+    { headers: openAiHeaders(config) },
+    aiRequestOptions(config, '获取模型列表失败', signal),
+  )
+  const data = (await res.json()) as { data?: Array<{ id?: string }> }
+  return (data.data ?? [])
+    .map((m) => String(m.id ?? '').trim())
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b))
+}
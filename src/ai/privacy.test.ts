@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { AiOutboundRequest, AiProviderConfig } from './client.ts'
+import { resolvePromptTemplate } from './prompts.ts'
+import { AI_PROVIDERS } from './providers.ts'
+import { aiDraftComments, aiParseHomeworkScores } from './tasks.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const roster = [
+  { studentId: '2024001', name: '张三' },
+  { studentId: '2024002', name: '李四' },
+]
+const percent = GRADING_SCALE_PRESETS[0]
+
+function mockConfig(model: string, sent: AiOutboundRequest[] = []): AiProviderConfig {
+  return { apiKey: '', model, baseUrl: '', proxy: null, timeoutMs: 5000, retries: 0, onRequest: (req) => sent.push(req) }
+}
+
+describe('privacy mode', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends only tokenised utterances and logs the class header', async () => {
+    const sent: AiOutboundRequest[] = []
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        Response.json({ candidates: [{ content: { parts: [{ text: '{"items":[{"studentId":"[N1]","name":"[S1]","score":90}]}' }] } }] }),
+      ),
+    )
+    const result = await aiParseHomeworkScores({
+      provider: AI_PROVIDERS.gemini,
+      config: {
+        ...mockConfig('gemini-2.0-flash', sent),
+        proxy: { url: 'http://localhost:8787', className: '三年二班' },
+      },
+      transcript: '张三九十 欧阳锋今天请假了 张三的妈妈张建国来电话',
+      roster,
+      gradingScale: percent,
+      pseudonymize: true,
+      promptTemplate: resolvePromptTemplate('score-matching', {}),
+      concurrency: 1,
+    })
+
+    expect(result.records.map((r) => [r.name, r.score])).toEqual([['张三', 90]])
+    expect(sent).toHaveLength(1)
+    // The built-in instructions use 张三/李四 as examples, so only the filled-in part is checked
+    const filled = sent[0].body.slice(sent[0].body.indexOf('花名册：'))
+    expect(filled).toContain('[S1] 90')
+    for (const text of ['张三', '李四', '欧阳', '张建国', '妈妈', '电话', '2024']) expect(filled).not.toContain(text)
+    expect(decodeURIComponent(sent[0].headers['x-class-name'])).toBe('三年二班')
+  })
+
+  it('still lets the mock match students from tokens', async () => {
+    const result = await aiParseHomeworkScores({
+      provider: AI_PROVIDERS.mock,
+      config: mockConfig('mock-dashscope'),
+      transcript: '张三九十 李四八十五 撤销上一个 李四缺交',
+      roster,
+      gradingScale: percent,
+      pseudonymize: true,
+      promptTemplate: resolvePromptTemplate('score-matching', {}),
+      concurrency: 1,
+    })
+    expect(result.records.map((r) => [r.name, r.score])).toEqual([['张三', 90]])
+  })
+
+  it('gives comment drafting the pseudonyms of the whole roster', async () => {
+    const sent: AiOutboundRequest[] = []
+    const result = await aiDraftComments({
+      provider: AI_PROVIDERS.mock,
+      config: mockConfig('mock-gemini', sent),
+      entries: [{ id: 'e2', studentId: '2024002', name: '李四', score: 85, status: 'graded' }],
+      roster,
+      transcript: '张三九十 李四八十五',
+      gradingScale: percent,
+      homeworkTitle: '练习一',
+      pseudonymize: true,
+      promptTemplate: resolvePromptTemplate('comment-drafting', {}),
+      concurrency: 1,
+    })
+
+    expect(sent).toHaveLength(1)
+    const filled = sent[0].body.slice(sent[0].body.indexOf('学生列表：'))
+    // 李四 keeps the roster token, and the remark about 张三 stays with 张三's token
+    expect(filled).toContain('[S2]')
+    expect(filled).toContain('[S1] 90')
+    expect(filled).toContain('[S2] 85')
+    for (const text of ['张三', '李四', '2024']) expect(filled).not.toContain(text)
+    expect([...result.comments.keys()]).toEqual(['e2'])
+  })
+})
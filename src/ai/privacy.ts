@@ -0,0 +1,92 @@
+import { FUZZY_AUTO_ACCEPT_CONFIDENCE, type SpokenTarget, parseDictation } from '../dictation.ts'
+import { ENTRY_STATUS_LABELS } from '../entries.ts'
+import type { GradingScale } from '../grading.ts'
+import type { RosterItem } from '../roster.ts'
+
+// Privacy mode: the prompt only carries opaque tokens such as [S3] (student) and [N3] (student id);
+// names and ids heard but not on the roster become [X1], [X2], ... The map back never leaves the page.
+type AiPseudonyms = {
+  roster: RosterItem[]
+  // The locally parsed utterances rebuilt from tokens, e.g. "[S1] 90；[X1]请假；撤销上一个"
+  transcript: string
+  // token -> real text
+  real: Map<string, string>
+}
+
+export const AI_PSEUDONYM_TOKEN_RE = /^\[?([SNX]\d+)\]?$/
+
+export function pseudonymizeForAi(roster: RosterItem[], transcript: string, gradingScale: GradingScale): AiPseudonyms {
+  const real = new Map<string, string>()
+  const nameTokens = new Map<string, string>()
+  const idTokens = new Map<string, string>()
+  let unknownCount = 0
+  const unknownToken = (text: string) => {
+    const token = `[X${++unknownCount}]`
+    real.set(token, text)
+    return token
+  }
+
+  const pseudoRoster = roster.map((r, i) => {
+    const nameToken = nameTokens.get(r.name) ?? `[S${i + 1}]`
+    nameTokens.set(r.name, nameToken)
+    real.set(nameToken, r.name)
+    let idToken = ''
+    if (r.studentId) {
+      idToken = `[N${i + 1}]`
+      idTokens.set(r.studentId, idToken)
+      real.set(idToken, r.studentId)
+    }
+    return { studentId: idToken, name: nameToken }
+  })
+
+  // The transcript itself is never sent: only what the local parser made of it, one utterance per
+  // item, with every student as a token. Free speech ("欧阳锋今天请假了", "张三的妈妈张建国…") drops out.
+  const rosterIds = new Set(roster.map((r) => r.studentId).filter(Boolean))
+  const heardTokens = new Map<string, string>()
+  const targetToken = (t: SpokenTarget) => {
+    const matched = t.matchType === 'exact' || (t.matchType === 'fuzzy' && t.confidence >= FUZZY_AUTO_ACCEPT_CONFIDENCE)
+    if (matched) {
+      if (t.rawStudentId && rosterIds.has(t.studentId) && idTokens.has(t.studentId)) return idTokens.get(t.studentId)!
+      return nameTokens.get(t.name) ?? unknownToken(t.name)
+    }
+    const heard = t.rawName || t.rawStudentId
+    let token = heardTokens.get(heard)
+    if (!token) {
+      token = unknownToken(heard)
+      heardTokens.set(heard, token)
+    }
+    return token
+  }
+  const utterances = parseDictation(transcript, roster, gradingScale).map((edit) => {
+    switch (edit.kind) {
+      case 'undo':
+        return '撤销上一个'
+      case 'remove':
+        return `删除${targetToken(edit.target)}`
+      case 'status':
+        return `${targetToken(edit.target)}${ENTRY_STATUS_LABELS[edit.status]}`
+      case 'score':
+        return `${targetToken(edit.pair)}${edit.correction ? '改成' : ''}${edit.late ? '补交' : ''} ${edit.pair.score}`
+    }
+  })
+  return { roster: pseudoRoster, transcript: utterances.join('；'), real }
+}
+
+/** Maps tokens in the model's items back to real names and ids; anything else is left as returned. */
+export function restorePseudonyms(items: unknown[], real: Map<string, string>) {
+  const restore = (v: unknown) => {
+    if (typeof v !== 'string') return v
+    const m = v.trim().match(AI_PSEUDONYM_TOKEN_RE)
+    return m ? (real.get(`[${m[1]}]`) ?? v) : v
+  }
+  return items.map((item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return item
+    const obj = item as Record<string, unknown>
+    return { ...obj, name: restore(obj.name), studentId: restore(obj.studentId) }
+  })
+}
+
+/** Replace any [S3]-style tokens the model wrote into free text. */
+export function restorePseudonymsInText(text: string, real: Map<string, string>) {
+  return text.replace(/\[[SNX]\d+\]/g, (token) => real.get(token) ?? token)
+}
@@ -0,0 +1,225 @@
+import { type GradingScale, describeGradingScale } from '../grading.ts'
+import type { RosterItem } from '../roster.ts'
+
+// Prompts are templates with {{variable}} placeholders. The built-in text can be overridden per
+// template in the app; every AI result records which version produced it.
+export type AiPromptTemplateId = 'score-matching' | 'roster-extraction' | 'comment-drafting' | 'photo-roster' | 'photo-scores'
+
+type AiPromptTemplate = {
+  label: string
+  // Bump when the built-in text changes
+  version: string
+  text: string
+  // Placeholder name → what it is filled with
+  variables: Record<string, string>
+  required: string[]
+}
+
+export type AiPromptOverride = {
+  // Shown in the version tag, e.g. "数学" → "数学@3f9a1c"
+  name: string
+  text: string
+}
+
+export type AiPromptOverrides = Partial<Record<AiPromptTemplateId, AiPromptOverride>>
+
+export type AiResolvedPrompt = {
+  text: string
+  version: string
+}
+
+export const AI_PROMPT_TEMPLATES: Record<AiPromptTemplateId, AiPromptTemplate> = {
+  'score-matching': {
+    label: '成绩匹配',
+    version: 'builtin-v1',
+    text: [
+      '你是语文老师的“作业成绩语音录入助手”。',
+      '给你两份输入：1) 花名册（包含学号 studentId 与姓名 name）2) 老师口述成绩的识别文本。',
+      '任务：从识别文本中提取每个学生的成绩，并把“学号或姓名”映射为花名册中的学生。',
+      '',
+      '强约束：',
+      '1) 只输出 JSON 对象 {"items":[...]}，不要任何额外文字',
+      '2) items 的元素是对象：{"studentId":"<花名册里的studentId，可为空字符串>","name":"<花名册里的name>","score":<{{gradingScale}}>}',
+      '3) name 必须严格来自花名册；studentId 必须与该 name 对应（若花名册中该学生学号为空，则 studentId 也输出空字符串）',
+      '4) 允许老师用“学号”或“姓名”报分；但输出必须是花名册中的标准记录',
+      '5) 同一学生出现多次取“最后一次”成绩',
+      '6) 过滤噪声词（如：语文/作业/成绩/分数/今天/同学/得了/是/为等）',
+      '7) 识别文本中可能夹有老师的更正指令：“撤销上一个”（作废前一条）、“张三改成九十”（改分）、“钱七补交八十”（按成绩输出）、“删除李四”“王五没交”“赵六请假”（这几类学生不要输出）；请先执行指令再输出最终结果',
+      '',
+      '花名册：',
+      '{{roster}}',
+      '',
+      '识别文本：',
+      '{{transcript}}',
+    ].join('\n'),
+    variables: {
+      roster: '花名册 JSON（学号、姓名；隐私模式下为代号）',
+      transcript: '本段识别文本',
+      gradingScale: '当前评分制说明',
+    },
+    required: ['roster', 'transcript'],
+  },
+  'roster-extraction': {
+    label: '花名册提取',
+    version: 'builtin-v1',
+    text: [
+      '你是一个帮助语文老师整理“花名册”的助手。',
+      '任务：从用户提供的原始文本中提取学生姓名，输出 JSON 数组（只输出 JSON，不要多余文字）。',
+      '',
+      '强约束：',
+      '1) 只输出 JSON 数组，例如：["张三","李四"]',
+      '2) 去除序号、班级、学号、括号备注、标点，保留姓名本体',
+      '3) 过滤明显非姓名的词（如“语文/作业/成绩/名单/男/女/缺勤”等）',
+      '4) 不要输出重复姓名',
+      '5) 不要输出已存在的姓名（已有名单）：{{existingNames}}',
+      '6) 如果无法确定，请保守处理，不要编造姓名',
+      '',
+      '原始文本：',
+      '{{transcript}}',
+    ].join('\n'),
+    variables: {
+      transcript: '粘贴的名单或语音转写',
+      existingNames: '花名册中已有的姓名（JSON 数组）',
+    },
+    required: ['transcript'],
+  },
+  'comment-drafting': {
+    label: '评语起草',
+    version: 'builtin-v1',
+    text: [
+      '你是语文老师的“作业评语助手”。',
+      '给你两份输入：1) 本次作业（{{homeworkTitle}}，评分制：{{gradingScale}}）每个学生的成绩与状态 2) 老师口述成绩时的识别文本（可能为空），其中可能夹有对个别学生的评价，如“张三 95 字写得很工整”。',
+      '任务：为每个学生写一句简短的作业评语。',
+      '',
+      '强约束：',
+      '1) 只输出 JSON 对象 {"items":[...]}，不要任何额外文字',
+      '2) items 的元素是对象：{"key":"<学生列表中的 key，原样返回>","comment":"<评语>"}，每个学生一条',
+      '3) 评语 15-40 字，语气亲切具体、以鼓励为主，可指出一处需要改进的地方；不要写学生姓名和具体分数',
+      '4) 识别文本中有对该学生的评价时，评语要体现这些内容；没有提到的学生只根据成绩与状态来写',
+      '5) 状态为“缺交”“请假”的学生，写提醒补交或补做的话',
+      '',
+      '学生列表：',
+      '{{students}}',
+      '',
+      '识别文本：',
+      '{{transcript}}',
+    ].join('\n'),
+    variables: {
+      students: '学生列表 JSON（key、姓名、成绩、状态；隐私模式下姓名为代号）',
+      transcript: '本次口述识别文本',
+      gradingScale: '当前评分制说明',
+      homeworkTitle: '作业名称',
+    },
+    required: ['students'],
+  },
+  'photo-roster': {
+    label: '照片识别花名册',
+    version: 'builtin-v1',
+    text: [
+      '你是一个帮助语文老师整理“花名册”的助手。',
+      '任务：识别图片（纸质名单、花名册照片或截图）中的学生，输出 JSON（只输出 JSON，不要多余文字）。',
+      '',
+      '强约束：',
+      '1) 只输出 JSON 对象 {"items":[{"studentId":"<学号，没有则为空字符串>","name":"<姓名>"}]}',
+      '2) 按图片中的顺序逐行输出；学号只保留数字',
+      '3) 去除序号、班级、括号备注、性别等，保留姓名本体',
+      '4) 不要输出已存在的姓名（已有名单）：{{existingNames}}',
+      '5) 看不清的字不要猜测编造；整行无法辨认时跳过',
+    ].join('\n'),
+    variables: {
+      existingNames: '花名册中已有的姓名（JSON 数组）',
+    },
+    required: [],
+  },
+  'photo-scores': {
+    label: '照片识别成绩',
+    version: 'builtin-v1',
+    text: [
+      '你是语文老师的“作业成绩登记助手”。',
+      '任务：识别图片（老师手写批改的成绩表照片）中每个学生的成绩，并把“学号或姓名”映射为花名册中的学生。',
+      '',
+      '强约束：',
+      '1) 只输出 JSON 对象 {"items":[...]}，不要任何额外文字',
+      '2) items 的元素是对象：{"studentId":"<花名册里的studentId，可为空字符串>","name":"<花名册里的name>","score":<{{gradingScale}}>}',
+      '3) name 必须严格来自花名册；studentId 必须与该 name 对应（若花名册中该学生学号为空，则 studentId 也输出空字符串）',
+      '4) 图片中的学号或姓名与花名册相近（错字、漏字）时，映射到最可能的学生；无法确定的行不要输出',
+      '5) 没有成绩、成绩被划掉或标注缺交的学生不要输出',
+      '',
+      '花名册：',
+      '{{roster}}',
+    ].join('\n'),
+    variables: {
+      roster: '花名册 JSON（学号、姓名）',
+      gradingScale: '当前评分制说明',
+    },
+    required: ['roster'],
+  },
+}
+
+const AI_PROMPT_VARIABLE_RE = /\{\{\s*([A-Za-z]+)\s*\}\}/g
+
+export function isAiPromptTemplateId(value: string): value is AiPromptTemplateId {
+  return Object.prototype.hasOwnProperty.call(AI_PROMPT_TEMPLATES, value)
+}
+
+// FNV-1a, enough to tell edited prompt versions apart
+function shortTextHash(text: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return (h >>> 0).toString(16).padStart(8, '0').slice(0, 6)
+}
+
+/** Read overrides saved to localStorage, dropping anything malformed. */
+export function parseAiPromptOverrides(raw: string | null): AiPromptOverrides {
+  if (!raw) return {}
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    return {}
+  }
+  if (!parsed || typeof parsed !== 'object') return {}
+  const out: AiPromptOverrides = {}
+  for (const [id, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const v = value as Partial<AiPromptOverride> | null
+    if (isAiPromptTemplateId(id) && v && typeof v.text === 'string' && v.text.trim()) {
+      out[id] = { name: typeof v.name === 'string' ? v.name : '', text: v.text }
+    }
+  }
+  return out
+}
+
+export function resolvePromptTemplate(id: AiPromptTemplateId, overrides: AiPromptOverrides): AiResolvedPrompt {
+  const override = overrides[id]
+  if (!override) return { text: AI_PROMPT_TEMPLATES[id].text, version: AI_PROMPT_TEMPLATES[id].version }
+  return { text: override.text, version: `${override.name.trim() || 'custom'}@${shortTextHash(override.text)}` }
+}
+
+/** Fill `{{name}}` placeholders; unknown names are left in place so the preview shows them. */
+export function renderPromptTemplate(text: string, variables: Record<string, string>) {
+  return text.replace(AI_PROMPT_VARIABLE_RE, (whole, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : whole,
+  )
+}
+
+/** Problems with an edited template: required placeholders that are missing and names that are not filled in. */
+export function promptTemplateProblems(id: AiPromptTemplateId, text: string) {
+  const template = AI_PROMPT_TEMPLATES[id]
+  const used = new Set(Array.from(text.matchAll(AI_PROMPT_VARIABLE_RE), (m) => m[1]))
+  const problems = template.required.filter((v) => !used.has(v)).map((v) => `缺少 {{${v}}}`)
+  for (const v of used) {
+    if (!Object.prototype.hasOwnProperty.call(template.variables, v)) problems.push(`未知变量 {{${v}}}`)
+  }
+  return problems
+}
+
+export function buildScoreMatchingPrompt(template: AiResolvedPrompt, roster: RosterItem[], transcript: string, gradingScale: GradingScale) {
+  return renderPromptTemplate(template.text, {
+    roster: JSON.stringify(roster),
+    transcript,
+    gradingScale: describeGradingScale(gradingScale),
+  })
+}
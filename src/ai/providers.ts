@@ -0,0 +1,38 @@
+import type { AiProvider, AiProviderId } from './client.ts'
+import { geminiGenerateText } from './gemini.ts'
+import { mockGenerateText, mockListModels } from './mock.ts'
+import { openAiGenerateText, openAiListModels } from './openai.ts'
+import { qwenGenerateText } from './qwen.ts'
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProvider> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini',
+    keyOptional: false,
+    generateText: geminiGenerateText,
+  },
+  qwen: {
+    id: 'qwen',
+    label: '千问',
+    keyOptional: false,
+    generateText: qwenGenerateText,
+  },
+  openai: {
+    id: 'openai',
+    label: 'OpenAI 兼容',
+    keyOptional: true,
+    generateText: openAiGenerateText,
+    listModels: openAiListModels,
+  },
+  mock: {
+    id: 'mock',
+    label: '模拟 AI',
+    keyOptional: true,
+    generateText: mockGenerateText,
+    listModels: mockListModels,
+  },
+}
+
+export function isAiProviderId(value: string): value is AiProviderId {
+  return Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value)
+}
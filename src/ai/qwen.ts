@@ -0,0 +1,110 @@
+import {
+  type AiTextRequest,
+  type AiTextResult,
+  type AiTokenUsage,
+  aiFetch,
+  aiProxyEndpoint,
+  aiProxyHeaders,
+  aiRequestOptions,
+} from './client.ts'
+
+export type QwenGenerateResponse = {
+  output?: {
+    text?: string
+    choices?: Array<{
+      message?: {
+        role?: string
+        // The multimodal endpoint answers with [{ text }]
+        content?: string | Array<{ text?: string }>
+      }
+      text?: string
+    }>
+  }
+  message?: string
+  usage?: {
+    input_tokens?: number
+    output_tokens?: number
+  }
+}
+
+export type QwenGenerateRequest = {
+  model: string
+  input: {
+    prompt?: string
+    messages?: Array<{ role: string; content: Array<{ image?: string; text?: string }> }>
+  }
+  parameters: Record<string, unknown>
+}
+
+/** DashScope endpoint path and body. Photos go to the multimodal endpoint, which needs a Qwen-VL model. */
+export function qwenRequest(req: AiTextRequest): { path: string; body: QwenGenerateRequest } {
+  const { config, prompt, temperature, maxTokens, jsonSchema, images = [] } = req
+  const path = images.length
+    ? '/api/v1/services/aigc/multimodal-generation/generation'
+    : '/api/v1/services/aigc/text-generation/generation'
+  const input = images.length
+    ? {
+        messages: [
+          {
+            role: 'user',
+            content: [...images.map((img) => ({ image: `data:${img.mimeType};base64,${img.data}` })), { text: prompt }],
+          },
+        ],
+      }
+    : {
+        // result_format: message -> output.choices[0].message.content in some responses
+        prompt,
+      }
+  return {
+    path,
+    body: {
+      model: config.model,
+      input,
+      parameters: {
+        temperature,
+        max_tokens: maxTokens,
+        result_format: 'message',
+        // JSON mode only guarantees a JSON object; the shape itself is described in the prompt.
+        // The multimodal endpoint does not take it.
+        ...(jsonSchema && !images.length ? { response_format: { type: 'json_object' } } : {}),
+      },
+    },
+  }
+}
+
+export async function qwenGenerateText(req: AiTextRequest): Promise<AiTextResult> {
+  const { config, signal } = req
+  // DashScope Qwen text-generation (direct calls may hit CORS; proxy mode avoids it).
+  const { path, body } = qwenRequest(req)
+  const endpoint = config.proxy ? aiProxyEndpoint(config.proxy, `/dashscope${path}`) : `https://dashscope.aliyuncs.com${path}`
+  const res = await aiFetch(
+    endpoint,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.proxy ? aiProxyHeaders(config.proxy) : { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    },
+    aiRequestOptions(config, '千问 API 请求失败', signal),
+  )
+
+  const data = (await res.json()) as QwenGenerateResponse
+  return { text: qwenResponseText(data), usage: qwenUsage(data) }
+}
+
+export function qwenResponseText(data: QwenGenerateResponse) {
+  const message = data.output?.choices?.[0]?.message?.content
+  const content =
+    (Array.isArray(message) ? message.map((part) => part.text ?? '').join('') : message) ??
+    data.output?.choices?.[0]?.text ??
+    data.output?.text ??
+    ''
+  return String(content || '').trim()
+}
+
+export function qwenUsage(data: QwenGenerateResponse): AiTokenUsage | null {
+  if (!data.usage) return null
+  return { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+}
@@ -0,0 +1,85 @@
+import { type ParsedPair, type ResolvedDictationEdit, spokenTargetKey } from '../dictation.ts'
+import { type Entry, type ScoreRecord, entryKey, parsedPairToRecord } from '../entries.ts'
+import type { GradeValue } from '../grading.ts'
+
+// Review of an AI match against the local parse before anything is written to the table.
+export type AiReviewChoice = 'ai' | 'local' | 'skip'
+
+export type AiReviewRow = {
+  key: string
+  studentId: string
+  name: string
+  local: ParsedPair | null
+  localLate: boolean
+  ai: ScoreRecord | null
+  // Why AI and local parse need a look; the table side is compared live by aiReviewTableState
+  disagreements: string[]
+  choice: AiReviewChoice
+}
+
+// Rows do not snapshot the table: it can change while the AI request or the review is open.
+export function buildAiReviewRows(aiRecords: ScoreRecord[], edits: ResolvedDictationEdit[]): AiReviewRow[] {
+  const rows = new Map<string, AiReviewRow>()
+  const rowFor = (student: { studentId: string; name: string }) => {
+    const key = spokenTargetKey(student)
+    let row = rows.get(key)
+    if (!row) {
+      row = {
+        key,
+        studentId: student.studentId,
+        name: student.name,
+        local: null,
+        localLate: false,
+        ai: null,
+        disagreements: [],
+        choice: 'skip',
+      }
+      rows.set(key, row)
+    }
+    return row
+  }
+
+  for (const e of edits) {
+    if (e.kind !== 'score') continue
+    const row = rowFor(e.pair)
+    row.local = e.pair
+    row.localLate = Boolean(e.late)
+  }
+  for (const r of aiRecords) rowFor(r).ai = r
+
+  for (const row of rows.values()) {
+    const { local, ai } = row
+    if (!ai) row.disagreements.push('AI 未给出该学生')
+    if (!local) row.disagreements.push('本地未解析到')
+    if (local && ai && String(local.score) !== String(ai.score)) row.disagreements.push('成绩不一致')
+    if (local && local.matchType === 'raw') row.disagreements.push('本地未匹配花名册')
+    if (local && local.matchType === 'fuzzy') row.disagreements.push(`本地为近音匹配（听到：${local.rawName}）`)
+    row.choice = ai ? 'ai' : local ? 'local' : 'skip'
+  }
+  return Array.from(rows.values())
+}
+
+/** The row against the current table: its score there (null when the student has no row) and all disagreements. */
+export function aiReviewTableState(row: AiReviewRow, entries: Entry[]) {
+  const existing = entries.find((e) => entryKey(e) === row.key)
+  const current: GradeValue | '' | null = existing ? existing.score : null
+  const proposed = row.ai?.score ?? row.local?.score
+  const disagreements =
+    current !== null && current !== '' && proposed !== undefined && String(current) !== String(proposed)
+      ? [...row.disagreements, `登记表已有 ${current}`]
+      : row.disagreements
+  return { current, disagreements }
+}
+
+/**
+ * Records to merge for the rows the teacher accepted; a local pick keeps the low-confidence rule of the local path.
+ * AI picks carry the prompt version so the entry records which template produced the score.
+ */
+export function aiReviewRecords(rows: AiReviewRow[], promptVersion: string): ScoreRecord[] {
+  return rows.flatMap((row): ScoreRecord[] => {
+    const status = row.localLate ? ('late' as const) : undefined
+    if (row.choice === 'ai' && row.ai) return [{ ...row.ai, status, promptVersion }]
+    if (row.choice === 'local' && row.local) return [{ ...parsedPairToRecord(row.local), status }]
+    return []
+  })
+}
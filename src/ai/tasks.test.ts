@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import type { AiOutboundRequest } from './client.ts'
+import { resolvePromptTemplate } from './prompts.ts'
+import { AI_PROVIDERS } from './providers.ts'
+import {
+  AI_CHUNK_MAX_CHARS,
+  aiParseHomeworkScores,
+  splitTranscriptIntoChunks,
+  validateAiScoreItems,
+} from './tasks.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const roster = [
+  { studentId: '2024001', name: '张三' },
+  { studentId: '2024002', name: '李四' },
+  { studentId: '2024003', name: '王五' },
+]
+const [percent, , , level4] = GRADING_SCALE_PRESETS
+// Enough repeated utterances to push whatever follows into the next chunk
+const filler = '李四八十五，'.repeat(Math.ceil(AI_CHUNK_MAX_CHARS / '李四八十五，'.length))
+
+async function matchScores(transcript: string, sent: AiOutboundRequest[] = []) {
+  const result = await aiParseHomeworkScores({
+    provider: AI_PROVIDERS.mock,
+    config: { apiKey: '', model: 'mock-gemini', baseUrl: '', proxy: null, timeoutMs: 5000, retries: 0, onRequest: (req) => sent.push(req) },
+    transcript,
+    roster,
+    gradingScale: percent,
+    pseudonymize: false,
+    promptTemplate: resolvePromptTemplate('score-matching', {}),
+    concurrency: 2,
+  })
+  return result.records.map((r) => [r.name, r.score])
+}
+
+describe('aiParseHomeworkScores', () => {
+  it('drops a score when a later chunk removes the student', async () => {
+    const sent: AiOutboundRequest[] = []
+    expect(await matchScores(`张三九十，王五八十，${filler}删除张三，王五缺交`, sent)).toEqual([['李四', 85]])
+    expect(sent.length).toBeGreaterThan(1)
+  })
+
+  it('keeps a score given again after the removal', async () => {
+    expect(await matchScores(`张三九十，${filler}删除张三，${filler}张三七十`)).toEqual([
+      ['李四', 85],
+      ['张三', 70],
+    ])
+  })
+})
+
+describe('splitTranscriptIntoChunks', () => {
+  it('keeps short transcripts whole', () => {
+    expect(splitTranscriptIntoChunks('张三九十，李四八十五')).toEqual(['张三九十， 李四八十五'])
+  })
+
+  it('cuts between utterances and keeps 撤销 with the utterance it cancels', () => {
+    expect(splitTranscriptIntoChunks('张三九十，李四八十五，王五七十', 12)).toEqual(['张三九十， 李四八十五，', '王五七十'])
+    expect(splitTranscriptIntoChunks('张三九十，李四八十五，撤销上一个', 12)).toEqual(['张三九十， 李四八十五， 撤销上一个'])
+  })
+
+  it('never splits inside an utterance longer than the limit', () => {
+    expect(splitTranscriptIntoChunks('张三九十李四八十五王五七十', 4)).toEqual(['张三九十李四八十五王五七十'])
+  })
+})
+
+describe('validateAiScoreItems', () => {
+  it('keeps items that agree with the roster and the scale', () => {
+    const { records, rejected } = validateAiScoreItems(
+      [
+        { studentId: '2024001', name: '张三', score: 90 },
+        { studentId: '2024002', name: '李四', score: '85.5' },
+      ],
+      roster,
+      percent,
+    )
+    expect(records).toEqual([
+      { studentId: '2024001', name: '张三', score: 90 },
+      { studentId: '2024002', name: '李四', score: 85.5 },
+    ])
+    expect(rejected).toEqual([])
+  })
+
+  it('rejects each item that does not, with the reason', () => {
+    const { records, rejected } = validateAiScoreItems(
+      [
+        { studentId: '2024001', name: '李四', score: 90 },
+        { studentId: '2024002', name: '李四', score: 120 },
+        { studentId: '', name: '赵六', score: 80 },
+        { studentId: '', name: '王五', score: 80 },
+        { name: '王五', score: 80 },
+        { studentId: '2024003', name: '王五', score: 'A' },
+      ],
+      roster,
+      percent,
+    )
+    expect(records).toEqual([])
+    expect(rejected).toEqual([
+      { label: '2024001 李四 90', reason: '学号 2024001 在花名册中是 张三，与姓名不符' },
+      { label: '2024002 李四 120', reason: '成绩超出范围（0-100）' },
+      { label: '赵六 80', reason: '姓名不在花名册中' },
+      { label: '王五 80', reason: '学号不符：花名册中 王五 的学号是 2024003' },
+      { label: '王五 80', reason: '格式不符：缺少字段 studentId' },
+      { label: '2024003 王五 A', reason: '格式不符：score 应为数字' },
+    ])
+  })
+
+  it('accepts only the levels of a level scale', () => {
+    const { records, rejected } = validateAiScoreItems(
+      [
+        { studentId: '2024001', name: '张三', score: '优' },
+        { studentId: '2024002', name: '李四', score: '优秀' },
+      ],
+      roster,
+      level4,
+    )
+    expect(records.map((r) => [r.name, r.score])).toEqual([['张三', '优']])
+    expect(rejected.map((r) => r.reason)).toEqual(['格式不符：score 应为 优/良/中/差 之一'])
+  })
+})
@@ -0,0 +1,543 @@
+import { type SpokenTarget, applyDictationEdits, parseDictation } from '../dictation.ts'
+import { type Entry, type ScoreRecord, entryStatusLabel } from '../entries.ts'
+import {
+  GRADING_SCALE_PRESETS,
+  type GradeValue,
+  type GradingScale,
+  describeGradingScale,
+  parseGrade,
+} from '../grading.ts'
+import { type RosterItem, normalizeStudentId, normalizeStudentName, uniqueNames, uniqueRosterItems } from '../roster.ts'
+import { isAbortError } from '../utils.ts'
+import {
+  type AiImage,
+  type AiJsonSchema,
+  type AiPhotoMode,
+  type AiProvider,
+  type AiProviderConfig,
+  aiGenerateText,
+} from './client.ts'
+import {
+  extractJsonArrayFromText,
+  jsonSchemaMismatch,
+  parseAiJson,
+  scoreItemSchema,
+  scoreMatchingSchema,
+} from './json.ts'
+import { pseudonymizeForAi, restorePseudonyms, restorePseudonymsInText } from './privacy.ts'
+import { type AiResolvedPrompt, buildScoreMatchingPrompt, renderPromptTemplate } from './prompts.ts'
+
+export type AiScoreRejection = {
+  // What the model returned, e.g. "张珊 95"
+  label: string
+  reason: string
+}
+
+type AiScoreMatchResult = {
+  records: ScoreRecord[]
+  rejected: AiScoreRejection[]
+}
+
+type AiScoreMatchOutcome = AiScoreMatchResult & {
+  promptVersion: string
+}
+
+function aiScoreItemLabel(item: unknown) {
+  if (!item || typeof item !== 'object') return JSON.stringify(item) ?? String(item)
+  const { studentId, name, score } = item as { studentId?: unknown; name?: unknown; score?: unknown }
+  return [studentId, name, score].map((v) => (v === undefined || v === null ? '' : String(v).trim())).filter(Boolean).join(' ')
+}
+
+// The model's answer is never trusted as-is: every item must fit the schema, resolve to a roster
+// student whose id and name both agree, and carry a grade valid on the current scale.
+export function validateAiScoreItems(items: unknown[], roster: RosterItem[], gradingScale: GradingScale): AiScoreMatchResult {
+  const itemSchema = scoreItemSchema(gradingScale)
+  const rosterByName = new Map<string, RosterItem>()
+  const rosterById = new Map<string, RosterItem>()
+  for (const r of roster) {
+    if (r.name) rosterByName.set(r.name, r)
+    if (r.studentId) rosterById.set(r.studentId, r)
+  }
+
+  const byKey = new Map<string, ScoreRecord>()
+  const rejected: AiScoreRejection[] = []
+  for (const item of items) {
+    const reject = (reason: string) => rejected.push({ label: aiScoreItemLabel(item) || '（空）', reason })
+    const mismatch = jsonSchemaMismatch(item, itemSchema, '')
+    if (mismatch) {
+      reject(`格式不符：${mismatch}`)
+      continue
+    }
+    const fields = item as { studentId: unknown; name: unknown; score: unknown }
+    const name = normalizeStudentName(String(fields.name))
+    const studentId = normalizeStudentId(String(fields.studentId))
+    if (!name) {
+      reject('姓名为空')
+      continue
+    }
+
+    const rawScore = String(fields.score).trim()
+    if (gradingScale.kind === 'numeric') {
+      const n = Number(rawScore)
+      if (Number.isFinite(n) && (n < 0 || n > gradingScale.max)) {
+        reject(`成绩超出范围（0-${gradingScale.max}）`)
+        continue
+      }
+    }
+    const s = parseGrade(rawScore, gradingScale)
+    if (s === null) {
+      reject(`成绩不符合当前评分制（${gradingScale.label}）`)
+      continue
+    }
+
+    const matchedById = studentId ? rosterById.get(studentId) : undefined
+    const matchedByName = rosterByName.get(name)
+    const matched = matchedById ?? matchedByName
+    if (!matched) {
+      reject(studentId ? `学号 ${studentId} 与姓名都不在花名册中` : '姓名不在花名册中')
+      continue
+    }
+
+    // Ensure name aligns with roster record
+    if (matched.name !== name) {
+      reject(`学号 ${studentId} 在花名册中是 ${matched.name}，与姓名不符`)
+      continue
+    }
+    // Ensure id aligns with roster record (unless roster has no id)
+    if (matched.studentId && matched.studentId !== studentId) {
+      reject(`学号不符：花名册中 ${matched.name} 的学号是 ${matched.studentId}`)
+      continue
+    }
+
+    const outId = matched.studentId || ''
+    const key = outId ? `id:${outId}` : `name:${matched.name}`
+    byKey.set(key, { studentId: outId, name: matched.name, score: s })
+  }
+  return { records: Array.from(byKey.values()), rejected }
+}
+
+// Long sessions are sent in pieces so that each answer stays well below the output token limit
+export const AI_CHUNK_MAX_CHARS = 300
+const AI_CHUNK_SEGMENT_RE = /[^，。；！？,;!?\s]+[，。；！？,;!?]*/g
+// "撤销上一个" only makes sense next to the utterance it cancels
+const AI_CHUNK_ATTACHED_RE = /^(?:(?:撤销|撤回|取消)(?:上一|刚才)|上一个不算|上一条不算)/
+export const AI_CHUNK_CONCURRENCY_OPTIONS = [1, 2, 3] as const
+
+/** Split a transcript into chunks of whole utterances, each at most `maxChars` long unless a single utterance is longer. */
+export function splitTranscriptIntoChunks(transcript: string, maxChars = AI_CHUNK_MAX_CHARS) {
+  const chunks: string[] = []
+  let current = ''
+  for (const segment of transcript.match(AI_CHUNK_SEGMENT_RE) ?? []) {
+    if (current && current.length + 1 + segment.length > maxChars && !AI_CHUNK_ATTACHED_RE.test(segment)) {
+      chunks.push(current)
+      current = segment
+    } else {
+      current = current ? `${current} ${segment}` : segment
+    }
+  }
+  if (current) chunks.push(current)
+  return chunks
+}
+
+/**
+ * Students a chunk takes out of the result: "删除张三" / "张三没交" / "张三请假" as the last word on them in that chunk.
+ * The model applies these inside its own chunk only, so a score from an earlier chunk has to be dropped here.
+ */
+function chunkRemovedTargets(chunk: string, roster: RosterItem[], gradingScale: GradingScale): SpokenTarget[] {
+  return applyDictationEdits(parseDictation(chunk, roster, gradingScale)).flatMap((e) =>
+    e.kind === 'remove' || (e.kind === 'status' && e.status !== 'late') ? [e.target] : [],
+  )
+}
+
+/** Run `task` over `items` with at most `limit` in flight; results keep the input order. */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>) {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await task(items[index], index)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
+
+async function aiParseScoreChunk(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  transcript: string
+  roster: RosterItem[]
+  gradingScale: GradingScale
+  pseudonymize: boolean
+  promptTemplate: AiResolvedPrompt
+  signal?: AbortSignal
+}): Promise<AiScoreMatchResult> {
+  const { provider, config, transcript, roster, gradingScale, pseudonymize, promptTemplate, signal } = params
+  const pseudonyms = pseudonymize ? pseudonymizeForAi(roster, transcript, gradingScale) : null
+  const prompt = pseudonyms
+    ? buildScoreMatchingPrompt(promptTemplate, pseudonyms.roster, pseudonyms.transcript, gradingScale)
+    : buildScoreMatchingPrompt(promptTemplate, roster, transcript, gradingScale)
+  const jsonSchema = scoreMatchingSchema(gradingScale)
+  const text = await aiGenerateText(provider, 'score-matching', {
+    config,
+    prompt,
+    temperature: 0.1,
+    maxTokens: 1024,
+    jsonSchema,
+    signal,
+  })
+
+  const parsed = parseAiJson(text)
+  // Some OpenAI-compatible servers ignore JSON mode and answer with a bare array
+  const items = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items
+  if (!Array.isArray(items)) {
+    throw new Error(`AI 返回的 JSON 结构不符：${jsonSchemaMismatch(parsed, jsonSchema, '') ?? '缺少 items 数组'}`)
+  }
+  return validateAiScoreItems(pseudonyms ? restorePseudonyms(items, pseudonyms.real) : items, roster, gradingScale)
+}
+
+export async function aiParseHomeworkScores(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  transcript: string
+  roster: RosterItem[]
+  gradingScale: GradingScale
+  pseudonymize: boolean
+  promptTemplate: AiResolvedPrompt
+  // 1 = one chunk after another; more sends several chunks at once
+  concurrency: number
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}): Promise<AiScoreMatchOutcome> {
+  const { transcript, concurrency, onProgress, signal, ...rest } = params
+  const chunks = splitTranscriptIntoChunks(transcript)
+  // A failed chunk cancels the ones still running; the caller then falls back to the local parse
+  const ac = new AbortController()
+  const onAbort = () => ac.abort()
+  signal?.addEventListener('abort', onAbort)
+  let done = 0
+  onProgress?.(0, chunks.length)
+  try {
+    const results = await mapWithConcurrency(chunks, concurrency, async (chunk, index) => {
+      try {
+        const result = await aiParseScoreChunk({ ...rest, transcript: chunk, signal: ac.signal })
+        onProgress?.(++done, chunks.length)
+        return result
+      } catch (e) {
+        ac.abort()
+        if (chunks.length > 1 && e instanceof Error && !isAbortError(e)) e.message = `第 ${index + 1}/${chunks.length} 段：${e.message}`
+        throw e
+      }
+    })
+
+    // Merge in transcript order so that the last mention of a student wins, as in the local parse;
+    // a removal in a later chunk cancels the score an earlier chunk gave
+    const byKey = new Map<string, ScoreRecord>()
+    const rejected: AiScoreRejection[] = []
+    results.forEach((result, index) => {
+      for (const t of chunkRemovedTargets(chunks[index], rest.roster, rest.gradingScale)) {
+        for (const [key, r] of byKey) {
+          if ((t.studentId && r.studentId === t.studentId) || r.name === t.name) byKey.delete(key)
+        }
+      }
+      for (const r of result.records) {
+        const key = r.studentId ? `id:${r.studentId}` : `name:${r.name}`
+        byKey.delete(key)
+        byKey.set(key, r)
+      }
+      for (const r of result.rejected) {
+        rejected.push(chunks.length > 1 ? { ...r, reason: `${r.reason}（第 ${index + 1} 段）` } : r)
+      }
+    })
+    return { records: Array.from(byKey.values()), rejected, promptVersion: rest.promptTemplate.version }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+export type AiCommentStudent = {
+  // Position in the request; comments come back by key so names never have to be matched
+  key: string
+  name: string
+  score: GradeValue | ''
+  status: string
+}
+
+// About 60 output tokens per comment keeps each batch well below the output limit
+export const AI_COMMENT_BATCH_SIZE = 15
+
+const AI_COMMENT_SCHEMA: AiJsonSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { key: { type: 'string' }, comment: { type: 'string' } },
+        required: ['key', 'comment'],
+      },
+    },
+  },
+  required: ['items'],
+}
+
+export function buildCommentDraftingPrompt(params: {
+  template: AiResolvedPrompt
+  students: AiCommentStudent[]
+  transcript: string
+  gradingScale: GradingScale
+  homeworkTitle: string
+}) {
+  const { template, students, transcript, gradingScale, homeworkTitle } = params
+  return renderPromptTemplate(template.text, {
+    students: JSON.stringify(students),
+    transcript: transcript || '（无）',
+    gradingScale: describeGradingScale(gradingScale),
+    homeworkTitle: homeworkTitle || '未命名作业',
+  })
+}
+
+/**
+ * Draft a 评语 for each entry from its score, status and whatever the teacher said about the
+ * student in `transcript`. Returns comments by entry id; entries the model skipped are absent.
+ */
+export async function aiDraftComments(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  entries: Entry[]
+  /** The whole class, so utterances about students not being drafted still resolve to the right pseudonym */
+  roster: RosterItem[]
+  transcript: string
+  gradingScale: GradingScale
+  homeworkTitle: string
+  pseudonymize: boolean
+  promptTemplate: AiResolvedPrompt
+  concurrency: number
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}): Promise<{ comments: Map<string, string>; promptVersion: string }> {
+  const { provider, config, entries, gradingScale, homeworkTitle, pseudonymize, promptTemplate, concurrency, onProgress, signal } =
+    params
+  // Pseudonyms come from the full roster: parsing the transcript against the drafted students alone
+  // would fuzzy-match remarks about everyone else onto them. Entries off the roster are appended.
+  const pseudonymRoster: RosterItem[] = [...params.roster]
+  for (const e of entries) {
+    const name = e.name.trim()
+    if (!pseudonymRoster.some((r) => r.name === name)) pseudonymRoster.push({ studentId: e.studentId.trim(), name })
+  }
+  const pseudonyms = pseudonymize ? pseudonymizeForAi(pseudonymRoster, params.transcript, gradingScale) : null
+  const transcript = pseudonyms ? pseudonyms.transcript : params.transcript
+  const students = entries.map((e, i) => ({
+    key: String(i + 1),
+    name: pseudonyms ? pseudonyms.roster[pseudonymRoster.findIndex((r) => r.name === e.name.trim())].name : e.name.trim(),
+    score: e.score,
+    status: entryStatusLabel(e),
+  }))
+  const batches: AiCommentStudent[][] = []
+  for (let i = 0; i < students.length; i += AI_COMMENT_BATCH_SIZE) batches.push(students.slice(i, i + AI_COMMENT_BATCH_SIZE))
+
+  const ac = new AbortController()
+  const onAbort = () => ac.abort()
+  signal?.addEventListener('abort', onAbort)
+  let done = 0
+  onProgress?.(0, batches.length)
+  try {
+    const results = await mapWithConcurrency(batches, concurrency, async (batch) => {
+      try {
+        const prompt = buildCommentDraftingPrompt({ template: promptTemplate, students: batch, transcript, gradingScale, homeworkTitle })
+        const text = await aiGenerateText(provider, 'comment-drafting', {
+          config,
+          prompt,
+          temperature: 0.7,
+          maxTokens: 2048,
+          jsonSchema: AI_COMMENT_SCHEMA,
+          signal: ac.signal,
+        })
+        const parsed = parseAiJson(text)
+        const items = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items
+        if (!Array.isArray(items)) {
+          throw new Error(`AI 返回的 JSON 结构不符：${jsonSchemaMismatch(parsed, AI_COMMENT_SCHEMA, '') ?? '缺少 items 数组'}`)
+        }
+        onProgress?.(++done, batches.length)
+        return items
+      } catch (e) {
+        ac.abort()
+        throw e
+      }
+    })
+
+    const comments = new Map<string, string>()
+    for (const item of results.flat()) {
+      if (!item || typeof item !== 'object') continue
+      const { key, comment } = item as { key?: unknown; comment?: unknown }
+      const entry = entries[Number(key) - 1]
+      const cleaned = typeof comment === 'string' ? comment.trim() : ''
+      if (!entry || !cleaned) continue
+      comments.set(entry.id, pseudonyms ? restorePseudonymsInText(cleaned, pseudonyms.real) : cleaned)
+    }
+    return { comments, promptVersion: promptTemplate.version }
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+const AI_PHOTO_ROSTER_SCHEMA: AiJsonSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { studentId: { type: 'string' }, name: { type: 'string' } },
+        required: ['studentId', 'name'],
+      },
+    },
+  },
+  required: ['items'],
+}
+
+// Phone photos are several MB; vision models read a ~1600px JPEG just as well
+const AI_PHOTO_MAX_SIDE = 1600
+
+/** Downscale a photo to a JPEG the providers accept inline. Text files pass through (the mock reads them). */
+export async function readImageForAi(file: File): Promise<AiImage> {
+  const base64 = (bytes: Uint8Array) => {
+    let binary = ''
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+    return btoa(binary)
+  }
+  if (file.type.startsWith('text/')) {
+    return { mimeType: file.type, data: base64(new Uint8Array(await file.arrayBuffer())) }
+  }
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    throw new Error(`无法读取图片 ${file.name}：请上传 JPG / PNG 照片或截图。`)
+  }
+  const scale = Math.min(1, AI_PHOTO_MAX_SIDE / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return { mimeType: 'image/jpeg', data: canvas.toDataURL('image/jpeg', 0.85).replace(/^data:[^,]*,/, '') }
+}
+
+export function buildPhotoExtractionPrompt(params: {
+  template: AiResolvedPrompt
+  roster: RosterItem[]
+  existingNames: string[]
+  gradingScale: GradingScale
+}) {
+  const { template, roster, existingNames, gradingScale } = params
+  return renderPromptTemplate(template.text, {
+    roster: JSON.stringify(roster),
+    existingNames: JSON.stringify(existingNames),
+    gradingScale: describeGradingScale(gradingScale),
+  })
+}
+
+async function aiRequestPhotoItems(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  image: AiImage
+  mode: AiPhotoMode
+  roster: RosterItem[]
+  gradingScale: GradingScale
+  promptTemplate: AiResolvedPrompt
+  signal?: AbortSignal
+}) {
+  const { provider, config, image, mode, roster, gradingScale, promptTemplate, signal } = params
+  const existingNames = uniqueNames(roster.map((r) => r.name))
+  const jsonSchema = mode === 'roster' ? AI_PHOTO_ROSTER_SCHEMA : scoreMatchingSchema(gradingScale)
+  const prompt = buildPhotoExtractionPrompt({ template: promptTemplate, roster, existingNames, gradingScale })
+  const text = await aiGenerateText(provider, 'photo-extraction', {
+    config,
+    prompt,
+    temperature: 0.1,
+    maxTokens: 4096,
+    jsonSchema,
+    images: [image],
+    signal,
+  })
+  const parsed = parseAiJson(text)
+  const items = Array.isArray(parsed) ? parsed : (parsed as { items?: unknown } | null)?.items
+  if (!Array.isArray(items)) {
+    throw new Error(`AI 返回的 JSON 结构不符：${jsonSchemaMismatch(parsed, jsonSchema, '') ?? '缺少 items 数组'}`)
+  }
+  return items
+}
+
+/** Read a class list from a photo; returns students not yet on the roster. */
+export async function aiExtractRosterFromPhoto(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  image: AiImage
+  roster: RosterItem[]
+  promptTemplate: AiResolvedPrompt
+  signal?: AbortSignal
+}): Promise<RosterItem[]> {
+  const items = await aiRequestPhotoItems({
+    ...params,
+    mode: 'roster',
+    // Not used by the roster prompt
+    gradingScale: GRADING_SCALE_PRESETS[0],
+  })
+  const existing = new Set(params.roster.map((r) => r.name))
+  const students = items.flatMap((item) => {
+    if (!item || typeof item !== 'object') return []
+    const { studentId, name } = item as { studentId?: unknown; name?: unknown }
+    const cleaned = normalizeStudentName(String(name ?? ''))
+    return cleaned && !existing.has(cleaned) ? [{ studentId: normalizeStudentId(String(studentId ?? '')), name: cleaned }] : []
+  })
+  return uniqueRosterItems(students)
+}
+
+/** Read scores from a marked sheet; every row goes through the same roster checks as dictated scores. */
+export async function aiExtractScoresFromPhoto(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  image: AiImage
+  roster: RosterItem[]
+  gradingScale: GradingScale
+  promptTemplate: AiResolvedPrompt
+  signal?: AbortSignal
+}): Promise<AiScoreMatchOutcome> {
+  const items = await aiRequestPhotoItems({ ...params, mode: 'scores' })
+  return { ...validateAiScoreItems(items, params.roster, params.gradingScale), promptVersion: params.promptTemplate.version }
+}
+
+export function buildRosterExtractionPrompt(template: AiResolvedPrompt, inputText: string, existingNames: string[]) {
+  return renderPromptTemplate(template.text, { transcript: inputText, existingNames: JSON.stringify(existingNames) })
+}
+
+export async function aiExtractRosterNamesWithExclusions(params: {
+  provider: AiProvider
+  config: AiProviderConfig
+  inputText: string
+  existingNames: string[]
+  promptTemplate: AiResolvedPrompt
+  signal?: AbortSignal
+}): Promise<string[]> {
+  const { provider, config, inputText, existingNames, promptTemplate, signal } = params
+  const prompt = buildRosterExtractionPrompt(promptTemplate, inputText, existingNames)
+  const text = await aiGenerateText(provider, 'roster-extraction', { config, prompt, temperature: 0.2, maxTokens: 1024, signal })
+
+  const jsonArr = extractJsonArrayFromText(text)
+  if (jsonArr) {
+    try {
+      const parsed = JSON.parse(jsonArr) as unknown
+      if (Array.isArray(parsed)) return uniqueNames(parsed.map((x) => String(x)))
+    } catch {
+      // fallthrough to line parsing
+    }
+  }
+
+  const fallback = text
+    .split(/\r?\n/g)
+    .map((s: string) => s.trim())
+    .filter(Boolean)
+  return uniqueNames(fallback)
+}
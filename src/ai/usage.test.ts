@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type AiUsageRecord,
+  aiBudgetBlockReason,
+  aiUsageMonthCost,
+  aiUsageMonthUnpriced,
+  appendAiUsageRecord,
+} from './usage.ts'
+
+describe('monthly budget', () => {
+  it('stops calls once the estimate reaches the cap', () => {
+    expect(aiBudgetBlockReason(10, 9.5, 'gemini', 'gemini-2.0-flash')).toBe('')
+    expect(aiBudgetBlockReason(10, 10, 'gemini', 'gemini-2.0-flash')).toContain('预算上限')
+  })
+
+  it('stops unpriced models instead of counting them as free', () => {
+    expect(aiBudgetBlockReason(10, 0, 'openai', 'my-local-llama')).toContain('没有已知单价')
+    expect(aiBudgetBlockReason(0, 0, 'openai', 'my-local-llama')).toBe('')
+    expect(aiBudgetBlockReason(10, 0, 'mock', 'mock-gemini')).toBe('')
+  })
+})
+
+describe('usage log', () => {
+  const record = (time: Date, costCny: number | null): AiUsageRecord => ({
+    id: String(time.getTime()),
+    time: time.getTime(),
+    className: '三年二班',
+    providerId: 'gemini',
+    model: 'gemini-2.0-flash',
+    purpose: 'score-matching',
+    ok: true,
+    latencyMs: 100,
+    usage: { inputTokens: 1000, outputTokens: 100 },
+    costCny,
+  })
+
+  it('drops only earlier months once the log is full, so the month total stays complete', () => {
+    const now = new Date(2026, 9, 19, 12)
+    const thisMonth = Array.from({ length: 2990 }, (_, i) => record(new Date(2026, 9, 1, 8, 0, i), 0.01))
+    const lastMonth = Array.from({ length: 10 }, (_, i) => record(new Date(2026, 8, 20, 12, i), 1))
+    let log = [...thisMonth, ...lastMonth]
+    for (let i = 0; i < 20; i++) log = appendAiUsageRecord(log, record(new Date(2026, 9, 19, 9, i), 0.01), now)
+
+    // The limit is reached after 10 more calls; the next 10 push out last month, then the log keeps growing
+    expect(log).toHaveLength(3010)
+    expect(log.some((r) => r.time < new Date(2026, 9, 1).getTime())).toBe(false)
+    expect(aiUsageMonthCost(log, now)).toBeCloseTo(30.1)
+  })
+
+  it('counts unpriced calls of this month only', () => {
+    const now = new Date(2026, 9, 19, 12)
+    const log = [record(new Date(2026, 9, 2), null), record(new Date(2026, 8, 2), null), record(new Date(2026, 9, 3), 2)]
+    expect(aiUsageMonthUnpriced(log, now)).toBe(1)
+    expect(aiUsageMonthCost(log, now)).toBe(2)
+  })
+})
@@ -0,0 +1,144 @@
+import { localDateISO } from '../utils.ts'
+import type { AiCallReport, AiProviderId } from './client.ts'
+import { normalizeGeminiModelSegment } from './gemini.ts'
+
+// Usage accounting: every reported call is kept (newest first) with an estimated cost in 元.
+// Prices are list prices per million tokens, USD converted at a fixed rate; they are estimates only.
+const AI_USD_TO_CNY = 7.2
+const AI_MODEL_PRICES: Array<{ match: RegExp; input: number; output: number }> = [
+  { match: /^gemini-2\.5-flash-lite/, input: 0.1 * AI_USD_TO_CNY, output: 0.4 * AI_USD_TO_CNY },
+  { match: /^gemini-2\.5-flash/, input: 0.3 * AI_USD_TO_CNY, output: 2.5 * AI_USD_TO_CNY },
+  { match: /^gemini-2\.5-pro/, input: 1.25 * AI_USD_TO_CNY, output: 10 * AI_USD_TO_CNY },
+  { match: /^gemini-2\.0-flash-lite/, input: 0.075 * AI_USD_TO_CNY, output: 0.3 * AI_USD_TO_CNY },
+  { match: /^gemini-2\.0-flash/, input: 0.1 * AI_USD_TO_CNY, output: 0.4 * AI_USD_TO_CNY },
+  { match: /^gemini-1\.5-flash/, input: 0.075 * AI_USD_TO_CNY, output: 0.3 * AI_USD_TO_CNY },
+  { match: /^gemini-1\.5-pro/, input: 1.25 * AI_USD_TO_CNY, output: 5 * AI_USD_TO_CNY },
+  { match: /^qwen-vl-max/, input: 3, output: 9 },
+  { match: /^qwen-vl-plus/, input: 1.5, output: 4.5 },
+  { match: /^qwen-turbo/, input: 0.3, output: 0.6 },
+  { match: /^qwen-plus/, input: 0.8, output: 2 },
+  { match: /^qwen-max/, input: 2.4, output: 9.6 },
+  { match: /^qwen-long/, input: 0.5, output: 2 },
+  { match: /^gpt-4o-mini/, input: 0.15 * AI_USD_TO_CNY, output: 0.6 * AI_USD_TO_CNY },
+  { match: /^gpt-4o/, input: 2.5 * AI_USD_TO_CNY, output: 10 * AI_USD_TO_CNY },
+]
+
+export type AiUsageRecord = AiCallReport & {
+  id: string
+  time: number
+  className: string
+  // null: the model has no known price, or the reply carried no token counts
+  costCny: number | null
+}
+
+const AI_USAGE_LOG_LIMIT = 3000
+
+function aiModelPrice(model: string) {
+  const normalized = normalizeGeminiModelSegment(model).toLowerCase()
+  return AI_MODEL_PRICES.find((p) => p.match.test(normalized)) ?? null
+}
+
+export function estimateAiCostCny(report: AiCallReport): number | null {
+  // Mock calls, model listing and failed requests are not billed per token
+  if (report.providerId === 'mock' || report.purpose === 'model-listing' || !report.ok) return 0
+  if (!report.usage) return null
+  const price = aiModelPrice(report.model)
+  if (!price) return null
+  return (report.usage.inputTokens * price.input + report.usage.outputTokens * price.output) / 1_000_000
+}
+
+/** Read the usage log saved to localStorage, dropping anything malformed. */
+export function parseAiUsageLog(raw: string | null): AiUsageRecord[] {
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw) as unknown
+    if (!Array.isArray(parsed)) return []
+    return parsed.filter(
+      (r): r is AiUsageRecord =>
+        Boolean(r) && typeof r === 'object' && typeof r.time === 'number' && typeof r.purpose === 'string',
+    )
+  } catch {
+    return []
+  }
+}
+
+type AiUsageSummaryRow = {
+  day: string
+  className: string
+  calls: number
+  failed: number
+  inputTokens: number
+  outputTokens: number
+  costCny: number
+  // Calls whose cost could not be estimated
+  unpriced: number
+}
+
+export function summarizeAiUsage(records: AiUsageRecord[]): AiUsageSummaryRow[] {
+  const rows = new Map<string, AiUsageSummaryRow>()
+  for (const r of records) {
+    const day = localDateISO(new Date(r.time))
+    const key = `${day}\u0000${r.className}`
+    const row = rows.get(key) ?? {
+      day,
+      className: r.className,
+      calls: 0,
+      failed: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costCny: 0,
+      unpriced: 0,
+    }
+    row.calls += 1
+    if (!r.ok) row.failed += 1
+    row.inputTokens += r.usage?.inputTokens ?? 0
+    row.outputTokens += r.usage?.outputTokens ?? 0
+    if (r.costCny === null) row.unpriced += 1
+    else row.costCny += r.costCny
+    rows.set(key, row)
+  }
+  return Array.from(rows.values()).sort(
+    (a, b) => b.day.localeCompare(a.day) || a.className.localeCompare(b.className, 'zh-Hans-CN'),
+  )
+}
+
+function isInMonthOf(r: AiUsageRecord, now: Date) {
+  return localDateISO(new Date(r.time)).slice(0, 7) === localDateISO(now).slice(0, 7)
+}
+
+/**
+ * Add a call to the log (newest first). Past the size limit only records from earlier months are dropped:
+ * the monthly budget is summed from this month's records, so none of them may fall off.
+ */
+export function appendAiUsageRecord(records: AiUsageRecord[], record: AiUsageRecord, now: Date) {
+  const next = [record, ...records]
+  if (next.length <= AI_USAGE_LOG_LIMIT) return next
+  let olderRoom = AI_USAGE_LOG_LIMIT - next.filter((r) => isInMonthOf(r, now)).length
+  return next.filter((r) => isInMonthOf(r, now) || olderRoom-- > 0)
+}
+
+export function aiUsageMonthCost(records: AiUsageRecord[], now: Date) {
+  return records.filter((r) => isInMonthOf(r, now)).reduce((sum, r) => sum + (r.costCny ?? 0), 0)
+}
+
+/** Calls this month whose cost could not be estimated, so the month total leaves them out. */
+export function aiUsageMonthUnpriced(records: AiUsageRecord[], now: Date) {
+  return records.filter((r) => r.costCny === null && isInMonthOf(r, now)).length
+}
+
+export function formatCny(value: number) {
+  return `¥${value < 1 ? value.toFixed(4) : value.toFixed(2)}`
+}
+
+const AI_BUDGET_EXCEEDED = '本月 AI 预估费用已达预算上限，已暂停 AI 调用（可在“AI 用量与费用”中调整预算）。'
+const AI_BUDGET_UNPRICED =
+  '已设每月预算，但当前模型没有已知单价、无法估算费用，已暂停 AI 调用：请换用有单价的模型，或把预算设为 0（不限）。'
+/**
+ * Why the monthly budget stops a paid call with `model` right now, or '' when it does not. A model
+ * without a known price would count as free, so with a budget set it is stopped rather than let through.
+ */
+export function aiBudgetBlockReason(budget: number, monthCost: number, providerId: AiProviderId, model: string) {
+  if (budget <= 0 || providerId === 'mock') return ''
+  if (monthCost >= budget) return AI_BUDGET_EXCEEDED
+  return aiModelPrice(model) ? '' : AI_BUDGET_UNPRICED
+}
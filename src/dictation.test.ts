@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { applyDictationEdits, parseDictation, parsePairsFromText } from './dictation.ts'
+import { GRADING_SCALE_PRESETS } from './grading.ts'
+
+const [percent, , oneFifty, level4] = GRADING_SCALE_PRESETS
+const roster = [
+  { studentId: '202401', name: '张三' },
+  { studentId: '202402', name: '李四' },
+  { studentId: '202403', name: '王五' },
+]
+
+const pairs = (text: string, scale = percent) =>
+  parsePairsFromText(text, roster, scale).map((p) => [p.studentId, p.name, p.score])
+
+describe('parsePairsFromText', () => {
+  it('reads decimals and large numbers without splitting them into extra pairs', () => {
+    expect(pairs('李四八十五点五分')).toEqual([['202402', '李四', 85.5]])
+    expect(pairs('张三八十点五')).toEqual([['202401', '张三', 80.5]])
+    expect(pairs('张三一百四十', oneFifty)).toEqual([['202401', '张三', 140]])
+    expect(pairs('李四一百零八', oneFifty)).toEqual([['202402', '李四', 108]])
+  })
+
+  it('splits run-on pairs', () => {
+    expect(pairs('李四八十八张三九十')).toEqual([
+      ['202402', '李四', 88],
+      ['202401', '张三', 90],
+    ])
+    expect(pairs('张三优秀李四良', level4)).toEqual([
+      ['202401', '张三', '优'],
+      ['202402', '李四', '良'],
+    ])
+  })
+
+  it('reads shorthand, 满分 and spoken student ids', () => {
+    expect(pairs('王五九五')).toEqual([['202403', '王五', 95]])
+    expect(pairs('张三满分')).toEqual([['202401', '张三', 100]])
+    expect(pairs('二零二四零二 九十')).toEqual([['202402', '李四', 90]])
+    expect(pairs('二零二四零三九十五')).toEqual([['202403', '王五', 95]])
+    expect(pairs('202401 88')).toEqual([['202401', '张三', 88]])
+  })
+})
+
+describe('fuzzy name matching', () => {
+  const matches = (text: string, names = roster) =>
+    parsePairsFromText(text, names, percent).map((p) => [p.name, p.matchType, p.confidence])
+
+  it('maps homophones and confusable initials onto the roster', () => {
+    expect(matches('李斯八十')).toEqual([['李四', 'fuzzy', 0.95]])
+    expect(matches('王武七十')).toEqual([['王五', 'fuzzy', 0.95]])
+    // shan / san: a zh-s confusion scores lower than a shared reading
+    expect(matches('张珊九十')).toEqual([['张三', 'fuzzy', 0.85]])
+  })
+
+  it('keeps names that sound like nobody, or like two students equally, as spoken', () => {
+    expect(matches('刘德华九十')).toEqual([['刘德华', 'raw', 0]])
+    const twins = [
+      { studentId: '', name: '张珊' },
+      { studentId: '', name: '张山' },
+    ]
+    expect(matches('张杉九十', twins)).toEqual([['张杉', 'raw', 0]])
+  })
+})
+
+describe('voice correction commands', () => {
+  const resolved = (text: string) =>
+    applyDictationEdits(parseDictation(text, roster, percent)).map((e) =>
+      e.kind === 'score'
+        ? [e.pair.name, e.pair.score, e.correction ? 'correction' : e.late ? 'late' : 'score']
+        : [e.target.name, e.kind === 'status' ? e.status : 'remove'],
+    )
+
+  it('undoes the previous utterance', () => {
+    expect(resolved('张三九十 李四八十 撤销上一个 王五没交')).toEqual([
+      ['张三', 90, 'score'],
+      ['王五', 'missing'],
+    ])
+  })
+
+  it('lets a correction or removal replace the earlier score', () => {
+    expect(resolved('张三九十 张三改成八十')).toEqual([['张三', 80, 'correction']])
+    expect(resolved('李四八十五 删除李四')).toEqual([['李四', 'remove']])
+  })
+
+  it('reads status commands and a late score after 补交', () => {
+    expect(resolved('王五请假 张三补交 八十')).toEqual([
+      ['王五', 'excused'],
+      ['张三', 80, 'late'],
+    ])
+  })
+})
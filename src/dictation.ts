@@ -0,0 +1,516 @@
+import { pinyin } from 'pinyin-pro'
+import type { EntryStatus } from './entries.ts'
+import { type GradeValue, type GradingScale, gradePatternSource, parseGrade } from './grading.ts'
+import { type RosterItem, SPOKEN_ID_RE, normalizeStudentId, normalizeStudentName } from './roster.ts'
+
+type MatchType = 'exact' | 'fuzzy' | 'raw'
+
+export type ParsedPair = {
+  studentId: string
+  name: string
+  rawStudentId: string
+  rawName: string
+  score: GradeValue
+  matchType: MatchType
+  confidence: number
+  source: string
+}
+
+export function normalizeTranscript(text: string) {
+  const noise = [
+    '今天',
+    '语文',
+    '作业',
+    '同学',
+    '同學',
+    '分数',
+    '成绩',
+    '成績',
+    '得了',
+    '得',
+    '是',
+    '为',
+    '分',
+    '，',
+    ',',
+    '。',
+    '、',
+    '：',
+    ':',
+    '；',
+    ';',
+    '（',
+    '(',
+    '）',
+    ')',
+    '【',
+    '[',
+    '】',
+    ']',
+    '“',
+    '"',
+    '”',
+    '"',
+    '？',
+    '?',
+    '！',
+    '!',
+  ]
+  // Keep decimal points such as "8.5"; any other "." is punctuation
+  let out = text.replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+  for (const w of noise) out = out.split(w).join(' ')
+  return out.replace(/\s+/g, ' ').trim()
+}
+
+// Fuzzy name matching (pinyin / homophones), used when the recognizer writes
+// a homophone such as "张珊" for 张三. Below FUZZY_MIN_CONFIDENCE the pair stays 'raw';
+// below FUZZY_AUTO_ACCEPT_CONFIDENCE it is shown but not merged as a roster record.
+const FUZZY_MIN_CONFIDENCE = 0.6
+export const FUZZY_AUTO_ACCEPT_CONFIDENCE = 0.8
+// Two candidates closer than this are treated as ambiguous.
+const FUZZY_AMBIGUITY_MARGIN = 0.08
+
+// Pairs that Mandarin speakers (and recognizers) commonly confuse.
+const PINYIN_INITIAL_CONFUSIONS: Array<[string, string]> = [
+  ['zh', 'z'],
+  ['ch', 'c'],
+  ['sh', 's'],
+  ['n', 'l'],
+  ['f', 'h'],
+  ['r', 'l'],
+]
+const PINYIN_FINAL_CONFUSIONS: Array<[string, string]> = [
+  ['ang', 'an'],
+  ['eng', 'en'],
+  ['ing', 'in'],
+  ['uang', 'uan'],
+  ['iang', 'ian'],
+]
+const PINYIN_INITIALS = ['zh', 'ch', 'sh', 'b', 'p', 'm', 'f', 'd', 't', 'n', 'l', 'g', 'k', 'h', 'j', 'q', 'x', 'r', 'z', 'c', 's', 'y', 'w']
+
+function splitPinyinSyllable(syllable: string) {
+  const initial = PINYIN_INITIALS.find((i) => syllable.startsWith(i)) ?? ''
+  return { initial, final: syllable.slice(initial.length) }
+}
+
+function isConfusablePair(a: string, b: string, pairs: Array<[string, string]>) {
+  if (a === b) return true
+  return pairs.some(([x, y]) => (a === x && b === y) || (a === y && b === x))
+}
+
+function charPinyins(ch: string) {
+  return pinyin(ch, { toneType: 'none', type: 'array', multiple: true }).map((p) => p.toLowerCase())
+}
+
+/** Similarity of two Chinese characters in [0, 1], tone-insensitive. */
+function charSimilarity(a: string, b: string) {
+  if (a === b) return 1
+  const pa = charPinyins(a)
+  const pb = charPinyins(b)
+  if (pa.some((x) => pb.includes(x))) return 0.9
+  for (const x of pa) {
+    const sx = splitPinyinSyllable(x)
+    for (const y of pb) {
+      const sy = splitPinyinSyllable(y)
+      const initialOk = isConfusablePair(sx.initial, sy.initial, PINYIN_INITIAL_CONFUSIONS)
+      const finalOk = isConfusablePair(sx.final, sy.final, PINYIN_FINAL_CONFUSIONS)
+      if (initialOk && finalOk) return 0.7
+    }
+  }
+  return 0
+}
+
+/** Edit distance over characters, where substitution costs (1 - pinyin similarity). */
+function pinyinEditDistance(a: string, b: string) {
+  const xs = Array.from(a)
+  const ys = Array.from(b)
+  const prev = Array.from({ length: ys.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= xs.length; i++) {
+    let diag = prev[0]
+    prev[0] = i
+    for (let j = 1; j <= ys.length; j++) {
+      const up = prev[j]
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (1 - charSimilarity(xs[i - 1], ys[j - 1])))
+      diag = up
+    }
+  }
+  return prev[ys.length]
+}
+
+function nameSimilarity(a: string, b: string) {
+  const len = Math.max(Array.from(a).length, Array.from(b).length)
+  if (!len) return 0
+  return Math.max(0, 1 - pinyinEditDistance(a, b) / len)
+}
+
+function fuzzyMatchRosterName(rawName: string, roster: RosterItem[]) {
+  if (!rawName) return null
+  let best: { item: RosterItem; confidence: number } | null = null
+  let runnerUp = 0
+  for (const r of roster) {
+    if (!r.name) continue
+    const c = nameSimilarity(rawName, r.name)
+    if (!best || c > best.confidence) {
+      runnerUp = best?.confidence ?? 0
+      best = { item: r, confidence: c }
+    } else if (c > runnerUp) {
+      runnerUp = c
+    }
+  }
+  if (!best || best.confidence < FUZZY_MIN_CONFIDENCE) return null
+  if (best.confidence - runnerUp < FUZZY_AMBIGUITY_MARGIN) return null
+  return { item: best.item, confidence: Math.round(best.confidence * 100) / 100 }
+}
+
+export type SpokenTarget = Omit<ParsedPair, 'score'>
+
+/** Map a spoken id or name onto the roster: exact id, exact name, then pinyin fuzzy match. */
+function matchSpokenTarget(rawIdOrName: string, roster: RosterItem[], source: string): SpokenTarget {
+  const rawStudentId = normalizeStudentId(rawIdOrName)
+  const rawName = normalizeStudentName(rawIdOrName)
+
+  let matched: { studentId: string; name: string; matchType: MatchType; confidence: number } = {
+    studentId: rawStudentId,
+    name: rawName || rawIdOrName,
+    matchType: 'raw',
+    confidence: 0,
+  }
+
+  if (rawStudentId) {
+    const byId = roster.find((r) => r.studentId && r.studentId === rawStudentId)
+    if (byId) matched = { studentId: byId.studentId, name: byId.name, matchType: 'exact', confidence: 1 }
+  } else if (rawName) {
+    const byName = roster.find((r) => r.name === rawName)
+    if (byName) matched = { studentId: byName.studentId, name: byName.name, matchType: 'exact', confidence: 1 }
+    else {
+      const fuzzy = fuzzyMatchRosterName(rawName, roster)
+      if (fuzzy) {
+        matched = {
+          studentId: fuzzy.item.studentId,
+          name: fuzzy.item.name,
+          matchType: 'fuzzy',
+          confidence: fuzzy.confidence,
+        }
+      }
+    }
+  }
+
+  return {
+    studentId: matched.studentId,
+    name: matched.name,
+    rawStudentId,
+    rawName,
+    matchType: matched.matchType,
+    confidence: matched.confidence,
+    source,
+  }
+}
+
+const STUDENT_ID_PATTERN = '\\d{4,}|[零〇幺一二两三四五六七八九]{4,}'
+const TRAILING_NUMERALS_RE = /[零〇幺一二两三四五六七八九十百点]+$/
+
+/**
+ * The id/name group is greedy, so "李四八十八" first splits as "李四八十" + "八" and
+ * "二零二四零一九十五" as "二零二四零一九" + "十五". Hand trailing numerals back to the score when that
+ * yields a roster id/name, or else the shortest plausible (2+ char) name.
+ */
+function splitIdOrNameFromScore(rawIdOrName: string, rawScore: string, roster: RosterItem[], scale: GradingScale) {
+  const unchanged = { rawIdOrName, rawScore }
+  const tail = rawIdOrName.match(TRAILING_NUMERALS_RE)?.[0] ?? ''
+  if (scale.kind !== 'numeric' || !tail) return unchanged
+
+  const candidates: Array<{ head: string; rest: string }> = []
+  for (let cut = 1; cut <= tail.length; cut++) {
+    const head = rawIdOrName.slice(0, -cut)
+    const rest = rawIdOrName.slice(-cut) + rawScore
+    if (parseGrade(rest, scale) !== null) candidates.push({ head, rest })
+  }
+
+  if (SPOKEN_ID_RE.test(rawIdOrName)) {
+    const id = normalizeStudentId(rawIdOrName)
+    if (roster.some((r) => r.studentId === id)) return unchanged
+    const hit = candidates.find((c) => {
+      const headId = normalizeStudentId(c.head)
+      return headId.length >= 4 && roster.some((r) => r.studentId === headId)
+    })
+    return hit ? { rawIdOrName: hit.head, rawScore: hit.rest } : unchanged
+  }
+
+  if (roster.some((r) => r.name === rawIdOrName)) return unchanged
+  const named = candidates.filter((c) => Array.from(c.head).length >= 2)
+  const exact = named.find((c) => roster.some((r) => r.name === c.head))
+  if (exact) return { rawIdOrName: exact.head, rawScore: exact.rest }
+  const fuzzy = named
+    .map((c) => ({ c, m: fuzzyMatchRosterName(c.head, roster) }))
+    .filter((x) => x.m)
+    .sort((a, b) => (b.m?.confidence ?? 0) - (a.m?.confidence ?? 0))[0]
+  if (fuzzy) return { rawIdOrName: fuzzy.c.head, rawScore: fuzzy.c.rest }
+  const shortest = named[named.length - 1]
+  return shortest ? { rawIdOrName: shortest.head, rawScore: shortest.rest } : unchanged
+}
+
+/** How much a chunk looks like one student's name: roster matches count most, unknown 2-4 char names a little. */
+function runOnNameQuality(name: string, roster: RosterItem[]) {
+  if (roster.some((r) => r.name === name)) return 3
+  const fuzzy = fuzzyMatchRosterName(name, roster)
+  if (fuzzy) return 1 + fuzzy.confidence
+  const len = Array.from(name).length
+  return len >= 2 && len <= 4 ? 0.5 : 0
+}
+
+const NUMERAL_CHAR_RE = /[0-9.零〇幺一二两三四五六七八九十百千点]/
+
+/**
+ * Run-on speech puts a whole earlier pair into the greedy name group: "张三优秀李四良" matches as
+ * "张三优秀李四" + "良", and "李四八十八张三九十" as "李四八十八张三" + "九十". Split such a chunk into
+ * the pairs spoken before it and the name that owns the matched grade. Either side must be a roster name
+ * unless there is no roster to compare with. On numeric scales the name after the grade may not start
+ * with a numeral: cutting "八十五点五" or "一百四十" in the middle would invent a name out of digits.
+ */
+function splitRunOnPairs(chunk: string, roster: RosterItem[], scale: GradingScale) {
+  const chars = Array.from(chunk)
+  const unchanged = { pairs: [] as Array<{ rawIdOrName: string; rawScore: string }>, rest: chunk }
+  if (chars.length < 5 || roster.some((r) => r.name === chunk)) return unchanged
+
+  const gradeRe = new RegExp(`^(?:${gradePatternSource(scale)})$`, 'i')
+  let best: { head: string; grade: string; tail: string; quality: number } | null = null
+  for (let i = 2; i <= chars.length - 3; i++) {
+    for (let j = i + 1; j <= chars.length - 2; j++) {
+      const grade = chars.slice(i, j).join('')
+      if (!gradeRe.test(grade)) continue
+      if (scale.kind === 'numeric' && NUMERAL_CHAR_RE.test(chars[j])) continue
+      const head = chars.slice(0, i).join('')
+      const tail = chars.slice(j).join('')
+      const headQuality = runOnNameQuality(head, roster)
+      const tailQuality = runOnNameQuality(tail, roster)
+      if (!headQuality || !tailQuality) continue
+      if (roster.length && headQuality < 1 && tailQuality < 1) continue
+      const quality = headQuality + tailQuality
+      // On a tie the longer grade wins: "优秀" rather than "优" + a name starting with "秀"
+      if (!best || quality > best.quality || (quality === best.quality && grade.length > best.grade.length)) {
+        best = { head, grade, tail, quality }
+      }
+    }
+  }
+  if (!best) return unchanged
+  return { pairs: [{ rawIdOrName: best.head, rawScore: best.grade }], rest: best.tail }
+}
+
+/** Score pairs in spoken order (no de-duplication; see applyDictationEdits). */
+export function parsePairsFromText(text: string, roster: RosterItem[], scale: GradingScale): ParsedPair[] {
+  const normalized = normalizeTranscript(text)
+  if (!normalized) return []
+
+  const results: ParsedPair[] = []
+  // e.g.
+  // - "张三 95"
+  // - "202401 95"
+  // - "李四九十五分" / "李四九五" / "李四八十五点五" / "李四满分"
+  // - "二零二四零一 九十五"
+  // - "王五 优秀" / "赵六 A加"（等级制）
+  const re = new RegExp(
+    `((?:${STUDENT_ID_PATTERN}|[\\u4e00-\\u9fa5]{2,8}))\\s*(?:得|是|为)?\\s*(${gradePatternSource(scale)})\\s*(?:分)?`,
+    'gi',
+  )
+  for (const match of normalized.matchAll(re)) {
+    // Split off earlier run-on pairs first, so the trailing-numeral split below only sees the last name
+    const runOn = splitRunOnPairs((match[1] ?? '').trim(), roster, scale)
+    const { rawIdOrName, rawScore } = splitIdOrNameFromScore(runOn.rest, (match[2] ?? '').trim(), roster, scale)
+    const score = parseGrade(rawScore, scale)
+    if (score === null) continue
+
+    const source = match[0] ?? ''
+    for (const earlier of runOn.pairs) {
+      const earlierScore = parseGrade(earlier.rawScore, scale)
+      if (earlierScore !== null) results.push({ ...matchSpokenTarget(earlier.rawIdOrName, roster, source), score: earlierScore })
+    }
+    results.push({ ...matchSpokenTarget(rawIdOrName, roster, source), score })
+  }
+  return results
+}
+
+// Voice correction commands spoken while recording, e.g.
+// - "撤销上一个"
+// - "张三改成九十"
+// - "删除李四"
+// - "王五没交" / "赵六请假" / "钱七补交 八十"
+export type DictationEdit =
+  | { kind: 'score'; pair: ParsedPair; correction: boolean; late?: boolean }
+  | { kind: 'status'; target: SpokenTarget; status: Exclude<EntryStatus, 'graded'> }
+  | { kind: 'remove'; target: SpokenTarget }
+  | { kind: 'undo'; source: string }
+
+export type ResolvedDictationEdit = Exclude<DictationEdit, { kind: 'undo' }>
+
+type DictationCommandMatch = {
+  start: number
+  end: number
+  edit: DictationEdit
+}
+
+// The object is required: a bare "取消" also turns up in ordinary speech ("我们取消了活动")
+const UNDO_COMMAND_RE = /(?:撤销|撤回|取消)(?:上一个|上一条|上一句|刚才那个|刚才那条|刚才的)|上一个不算|上一条不算/g
+function correctionCommandRe(scale: GradingScale) {
+  return new RegExp(
+    `(${STUDENT_ID_PATTERN}|[\\u4e00-\\u9fa5]{2,8}?)\\s*(?:改成|改为|改到|更正为|更正成|应该是)\\s*(${gradePatternSource(scale)})\\s*分?`,
+    'gi',
+  )
+}
+const REMOVE_COMMAND_RE = new RegExp(`(?:删除|删掉|去掉)\\s*(${STUDENT_ID_PATTERN}|[\\u4e00-\\u9fa5]{2,8})`, 'g')
+export const STATUS_COMMAND_KEYWORDS: Record<string, Exclude<EntryStatus, 'graded'>> = {
+  没交: 'missing',
+  没有交: 'missing',
+  未交: 'missing',
+  缺交: 'missing',
+  请假: 'excused',
+  病假: 'excused',
+  事假: 'excused',
+  补交: 'late',
+}
+const STATUS_COMMAND_RE = new RegExp(
+  `(${STUDENT_ID_PATTERN}|[\\u4e00-\\u9fa5]{2,8}?)\\s*(${Object.keys(STATUS_COMMAND_KEYWORDS).join('|')})`,
+  'g',
+)
+const SCORE_NUMERAL_CHARS_RE = /^[零〇一二两三四五六七八九十百]+/
+
+/**
+ * Resolve the student named at one edge of `chunk`: the regexes above cannot tell where a name
+ * ends inside run-on speech ("李四八十八张三改成九十"), so try roster names of 2-4 chars first.
+ */
+function resolveCommandTarget(chunk: string, roster: RosterItem[], edge: 'start' | 'end') {
+  if (/^\d+$/.test(chunk) || SPOKEN_ID_RE.test(chunk)) return { used: chunk, target: matchSpokenTarget(chunk, roster, chunk) }
+
+  const take = (len: number) => (edge === 'end' ? chunk.slice(-len) : chunk.slice(0, len))
+  const maxLen = Math.min(4, chunk.length)
+  for (let len = maxLen; len >= 2; len--) {
+    const candidate = take(len)
+    if (roster.some((r) => r.name === candidate)) {
+      return { used: candidate, target: matchSpokenTarget(candidate, roster, candidate) }
+    }
+  }
+  let best: { used: string; target: SpokenTarget } | null = null
+  for (let len = maxLen; len >= 2; len--) {
+    const candidate = take(len)
+    const target = matchSpokenTarget(candidate, roster, candidate)
+    if (target.matchType === 'fuzzy' && (!best || target.confidence > best.target.confidence)) {
+      best = { used: candidate, target }
+    }
+  }
+  if (best) return best
+
+  const trimmed = edge === 'end' ? chunk.replace(SCORE_NUMERAL_CHARS_RE, '') || chunk : chunk
+  const used = take(Math.min(3, trimmed.length))
+  return { used, target: matchSpokenTarget(used, roster, used) }
+}
+
+function findDictationCommands(text: string, roster: RosterItem[], scale: GradingScale): DictationCommandMatch[] {
+  const found: DictationCommandMatch[] = []
+
+  for (const m of text.matchAll(UNDO_COMMAND_RE)) {
+    const start = m.index ?? 0
+    found.push({ start, end: start + m[0].length, edit: { kind: 'undo', source: m[0] } })
+  }
+
+  for (const m of text.matchAll(correctionCommandRe(scale))) {
+    const start = m.index ?? 0
+    const chunk = m[1] ?? ''
+    const score = parseGrade(m[2] ?? '', scale)
+    if (score === null) continue
+    const { used, target } = resolveCommandTarget(chunk, roster, 'end')
+    const cmdStart = start + chunk.length - used.length
+    const source = text.slice(cmdStart, start + m[0].length)
+    found.push({
+      start: cmdStart,
+      end: start + m[0].length,
+      edit: { kind: 'score', pair: { ...target, source, score }, correction: true },
+    })
+  }
+
+  // "补交" may carry the late score right after it: "钱七补交 八十"
+  const lateScoreRe = new RegExp(`^\\s*(${gradePatternSource(scale)})\\s*分?`, 'i')
+  for (const m of text.matchAll(STATUS_COMMAND_RE)) {
+    const start = m.index ?? 0
+    const chunk = m[1] ?? ''
+    const status = STATUS_COMMAND_KEYWORDS[m[2] ?? '']
+    if (!status) continue
+    const { used, target } = resolveCommandTarget(chunk, roster, 'end')
+    const cmdStart = start + chunk.length - used.length
+    let end = start + m[0].length
+    if (status === 'late') {
+      const after = text.slice(end).match(lateScoreRe)
+      const score = after ? parseGrade(after[1] ?? '', scale) : null
+      if (after && score !== null) {
+        end += after[0].length
+        const source = text.slice(cmdStart, end)
+        found.push({
+          start: cmdStart,
+          end,
+          edit: { kind: 'score', pair: { ...target, source, score }, correction: false, late: true },
+        })
+        continue
+      }
+    }
+    const source = text.slice(cmdStart, end)
+    found.push({ start: cmdStart, end, edit: { kind: 'status', target: { ...target, source }, status } })
+  }
+
+  for (const m of text.matchAll(REMOVE_COMMAND_RE)) {
+    const start = m.index ?? 0
+    const chunk = m[1] ?? ''
+    const { used, target } = resolveCommandTarget(chunk, roster, 'start')
+    const cmdEnd = start + m[0].length - chunk.length + used.length
+    const source = text.slice(start, cmdEnd)
+    found.push({ start, end: cmdEnd, edit: { kind: 'remove', target: { ...target, source } } })
+  }
+
+  // Keep the earliest command when two patterns overlap
+  found.sort((a, b) => a.start - b.start || b.end - a.end)
+  const out: DictationCommandMatch[] = []
+  for (const c of found) {
+    const last = out[out.length - 1]
+    if (last && c.start < last.end) continue
+    out.push(c)
+  }
+  return out
+}
+
+/** Score pairs and correction commands in spoken order. */
+export function parseDictation(text: string, roster: RosterItem[], scale: GradingScale): DictationEdit[] {
+  const compact = text.replace(/\s+/g, ' ').trim()
+  if (!compact) return []
+
+  const edits: DictationEdit[] = []
+  let cursor = 0
+  const pushPairs = (segment: string) => {
+    for (const pair of parsePairsFromText(segment, roster, scale)) edits.push({ kind: 'score', pair, correction: false })
+  }
+  for (const cmd of findDictationCommands(compact, roster, scale)) {
+    pushPairs(compact.slice(cursor, cmd.start))
+    edits.push(cmd.edit)
+    cursor = cmd.end
+  }
+  pushPairs(compact.slice(cursor))
+  return edits
+}
+
+export function spokenTargetKey(t: { studentId: string; name: string }) {
+  return t.studentId ? `id:${t.studentId}` : `name:${t.name}`
+}
+
+/**
+ * Replay edits in order: "撤销" drops the previous edit, and the last mention of a student wins.
+ * Returns one edit per student (score / status / remove) in first-mention order.
+ */
+export function applyDictationEdits(edits: DictationEdit[]): ResolvedDictationEdit[] {
+  const applied: ResolvedDictationEdit[] = []
+  for (const e of edits) {
+    if (e.kind === 'undo') applied.pop()
+    else applied.push(e)
+  }
+  const byKey = new Map<string, ResolvedDictationEdit>()
+  for (const e of applied) {
+    const key = spokenTargetKey(e.kind === 'score' ? e.pair : e.target)
+    byKey.set(key, e)
+  }
+  return Array.from(byKey.values())
+}
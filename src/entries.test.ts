@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { applyDictationEdits, parseDictation } from './dictation.ts'
+import {
+  type Entry,
+  applyDictationToEntries,
+  entryStatusLabel,
+  pendingRosterStudents,
+  withEntryScore,
+} from './entries.ts'
+import { GRADING_SCALE_PRESETS } from './grading.ts'
+
+const percent = GRADING_SCALE_PRESETS[0]
+const roster = [
+  { studentId: '202401', name: '张三' },
+  { studentId: '202402', name: '李四' },
+  { studentId: '202403', name: '王五' },
+  { studentId: '202404', name: '赵六' },
+]
+
+function dictate(prev: Entry[], text: string) {
+  return applyDictationToEntries(prev, applyDictationEdits(parseDictation(text, roster, percent)))
+}
+
+const table = (entries: Entry[]) => entries.map((e) => [e.name, e.score, entryStatusLabel(e)])
+
+describe('submission status', () => {
+  it('records 缺交 / 请假 / 补交 from dictation', () => {
+    // Scores are merged first, then students known only from a status command are added
+    expect(table(dictate([], '张三九十 李四没交 王五请假 赵六补交 八十'))).toEqual([
+      ['张三', 90, '已评'],
+      ['赵六', 80, '补交'],
+      ['李四', '', '缺交'],
+      ['王五', '', '请假'],
+    ])
+  })
+
+  it('clears the score of a student later marked 缺交, and keeps a re-graded 补交 late', () => {
+    const first = dictate([], '张三九十 赵六补交 八十')
+    expect(table(dictate(first, '张三没交 赵六八十五'))).toEqual([
+      ['张三', '', '缺交'],
+      ['赵六', 85, '补交'],
+    ])
+  })
+
+  it('makes a typed score graded again', () => {
+    const [missing] = dictate([], '李四没交')
+    expect(entryStatusLabel(withEntryScore(missing, 75))).toBe('已评')
+  })
+
+  it('lists roster students with neither a score nor 缺交 / 请假 as pending', () => {
+    const entries = dictate([], '张三九十 李四没交 王五补交')
+    expect(pendingRosterStudents(roster, entries).map((r) => r.name)).toEqual(['王五', '赵六'])
+  })
+})
@@ -0,0 +1,150 @@
+import {
+  FUZZY_AUTO_ACCEPT_CONFIDENCE,
+  type ParsedPair,
+  type ResolvedDictationEdit,
+  type SpokenTarget,
+} from './dictation.ts'
+import type { GradeValue } from './grading.ts'
+import type { RosterItem } from './roster.ts'
+import { uid } from './utils.ts'
+
+export type Entry = {
+  id: string
+  studentId: string
+  name: string
+  score: GradeValue | ''
+  /** Submission status; a scored entry without one counts as graded */
+  status?: EntryStatus
+  /** 评语: typed by the teacher or drafted by AI and then edited */
+  comment?: string
+  /** Prompt template version of the AI answer the score came from; cleared when the score is set any other way */
+  scorePromptVersion?: string
+  /** Prompt template version of the AI-drafted comment; cleared when the teacher edits it */
+  commentPromptVersion?: string
+}
+
+export type EntryStatus = 'graded' | 'missing' | 'excused' | 'late'
+
+export const ENTRY_STATUS_LABELS: Record<EntryStatus, string> = {
+  graded: '已评',
+  missing: '缺交',
+  excused: '请假',
+  late: '补交',
+}
+
+export type ScoreRecord = { studentId: string; name: string; score: GradeValue; status?: EntryStatus; promptVersion?: string }
+
+/** Low-confidence fuzzy matches keep what was heard instead of claiming a roster record. */
+export function spokenTargetToStudent(t: SpokenTarget) {
+  if (t.matchType === 'fuzzy' && t.confidence < FUZZY_AUTO_ACCEPT_CONFIDENCE) {
+    return { studentId: t.rawStudentId, name: t.rawName || t.name }
+  }
+  return { studentId: t.studentId, name: t.name }
+}
+
+export function parsedPairToRecord(p: ParsedPair): ScoreRecord {
+  return { ...spokenTargetToStudent(p), score: p.score }
+}
+
+export function entryKey(e: { studentId: string; name: string }) {
+  return e.studentId ? `id:${e.studentId.trim()}` : `name:${e.name.trim()}`
+}
+
+export function mergeScoresIntoEntries(prev: Entry[], records: ScoreRecord[]) {
+  const map = new Map<string, Entry>()
+  for (const e of prev) map.set(entryKey(e), e)
+  for (const p of records) {
+    const key0 = entryKey(p)
+    if (!key0 || key0 === 'name:') continue
+    const existing = map.get(key0)
+    // A re-graded "补交" stays late; a scored 缺交/请假 becomes graded
+    const status = p.status ?? (existing?.status === 'late' ? 'late' : 'graded')
+    if (existing) {
+      map.set(key0, {
+        ...existing,
+        studentId: p.studentId,
+        name: p.name,
+        score: p.score,
+        status,
+        scorePromptVersion: p.promptVersion,
+      })
+    } else {
+      map.set(key0, {
+        id: uid(),
+        studentId: p.studentId,
+        name: p.name,
+        score: p.score,
+        status,
+        scorePromptVersion: p.promptVersion,
+      })
+    }
+  }
+  return Array.from(map.values())
+}
+
+/** Apply "没交" / "请假" / "补交" / "删除" edits from voice commands on top of the merged scores. */
+export function applyStatusEditsToEntries(prev: Entry[], edits: ResolvedDictationEdit[]) {
+  let next = prev
+  for (const e of edits) {
+    if (e.kind === 'score') continue
+    const student = spokenTargetToStudent(e.target)
+    const sameStudent = (r: Entry) =>
+      (student.studentId && r.studentId.trim() === student.studentId) || (student.name && r.name.trim() === student.name)
+    if (e.kind === 'remove') {
+      next = next.filter((r) => !sameStudent(r))
+      continue
+    }
+    if (!student.name && !student.studentId) continue
+    next = setEntryStatus(next, student, e.status)
+  }
+  return next
+}
+
+/** 缺交/请假 clear the score; 补交 keeps it. */
+export function withEntryStatus(r: Entry, status: EntryStatus): Entry {
+  const clearsScore = status === 'missing' || status === 'excused'
+  return clearsScore ? { ...r, score: '', status, scorePromptVersion: undefined } : { ...r, status }
+}
+
+/** Set the status of a student's row, adding a row for students not in the table yet. */
+export function setEntryStatus(prev: Entry[], student: { studentId: string; name: string }, status: EntryStatus) {
+  const sameStudent = (r: Entry) =>
+    (student.studentId && r.studentId.trim() === student.studentId) || (student.name && r.name.trim() === student.name)
+  const existing = prev.find(sameStudent)
+  if (existing) return prev.map((r) => (r === existing ? withEntryStatus(r, status) : r))
+  return [...prev, { id: uid(), studentId: student.studentId, name: student.name, score: '', status }]
+}
+
+/** Typing a score into a 缺交/请假 row makes it graded; 补交 stays late. */
+export function withEntryScore(r: Entry, score: GradeValue | ''): Entry {
+  if (score === '') return { ...r, score, scorePromptVersion: undefined }
+  return { ...r, score, status: r.status === 'late' ? 'late' : 'graded', scorePromptVersion: undefined }
+}
+
+/** Whether the entry needs no more work: scored, or marked 缺交/请假. */
+export function isEntryResolved(e: Entry) {
+  return e.score !== '' || e.status === 'missing' || e.status === 'excused'
+}
+
+export function entryStatusLabel(e: Entry) {
+  if (e.status && e.status !== 'graded') return ENTRY_STATUS_LABELS[e.status]
+  return e.score !== '' ? ENTRY_STATUS_LABELS.graded : '未评'
+}
+
+/** Roster students that have no resolved entry yet. */
+export function pendingRosterStudents(roster: RosterItem[], entries: Entry[]) {
+  return roster.filter(
+    (r) =>
+      !entries.some(
+        (e) =>
+          isEntryResolved(e) && ((r.studentId && e.studentId.trim() === r.studentId) || e.name.trim() === r.name),
+      ),
+  )
+}
+
+export function applyDictationToEntries(prev: Entry[], edits: ResolvedDictationEdit[]) {
+  const records = edits.flatMap((e) =>
+    e.kind === 'score' ? [{ ...parsedPairToRecord(e.pair), status: e.late ? ('late' as const) : undefined }] : [],
+  )
+  return applyStatusEditsToEntries(mergeScoresIntoEntries(prev, records), edits)
+}
@@ -0,0 +1,106 @@
+import type { Entry } from './entries.ts'
+import { uid } from './utils.ts'
+
+// Gradebook: every assignment (class + date + title) is persisted to IndexedDB as it is edited.
+export type AssignmentRecord = {
+  id: string
+  className: string
+  date: string
+  homeworkTitle: string
+  gradingScaleId: string
+  customMaxScore: number
+  entries: Entry[]
+  createdAt: number
+  updatedAt: number
+}
+
+const GRADEBOOK_DB_NAME = 'homework-gradebook'
+const GRADEBOOK_DB_VERSION = 1
+const GRADEBOOK_STORE = 'assignments'
+const GRADEBOOK_KEY_INDEX = 'byClassDateTitle'
+
+let gradebookDbPromise: Promise<IDBDatabase> | null = null
+
+function openGradebookDb() {
+  if (gradebookDbPromise) return gradebookDbPromise
+  gradebookDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('当前浏览器不支持 IndexedDB，作业记录无法保存。'))
+      return
+    }
+    const req = indexedDB.open(GRADEBOOK_DB_NAME, GRADEBOOK_DB_VERSION)
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(GRADEBOOK_STORE, { keyPath: 'id' })
+      // One record per class + date + title: saving a second one fails with ConstraintError
+      store.createIndex(GRADEBOOK_KEY_INDEX, ['className', 'date', 'homeworkTitle'], { unique: true })
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error ?? new Error('打开作业记录数据库失败。'))
+  })
+  // Allow a retry after a failed open
+  gradebookDbPromise.catch(() => {
+    gradebookDbPromise = null
+  })
+  return gradebookDbPromise
+}
+
+async function gradebookRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openGradebookDb()
+  return await new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(GRADEBOOK_STORE, mode)
+    const req = run(tx.objectStore(GRADEBOOK_STORE))
+    tx.oncomplete = () => resolve(req.result)
+    tx.onerror = () => reject(tx.error ?? new Error('作业记录读写失败。'))
+    tx.onabort = () => reject(tx.error ?? new Error('作业记录读写被中止。'))
+  })
+}
+
+export async function gradebookListAssignments() {
+  const all = await gradebookRequest('readonly', (store) => store.getAll() as IDBRequest<AssignmentRecord[]>)
+  return all.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function gradebookGetAssignment(id: string) {
+  const rec = await gradebookRequest('readonly', (store) => store.get(id) as IDBRequest<AssignmentRecord | undefined>)
+  return rec ?? null
+}
+
+export async function gradebookFindAssignment(params: { className: string; date: string; homeworkTitle: string }) {
+  const { className, date, homeworkTitle } = params
+  const rec = await gradebookRequest(
+    'readonly',
+    (store) =>
+      store.index(GRADEBOOK_KEY_INDEX).get([className, date, homeworkTitle]) as IDBRequest<AssignmentRecord | undefined>,
+  )
+  return rec ?? null
+}
+
+export async function gradebookPutAssignment(record: AssignmentRecord) {
+  try {
+    await gradebookRequest('readwrite', (store) => store.put(record))
+  } catch (e) {
+    if ((e as DOMException | null)?.name === 'ConstraintError') {
+      throw new Error('已存在同班级、同日期、同名称的作业记录，本次修改未保存；请修改作业名称，或在“作业记录”中打开已有记录。')
+    }
+    throw e
+  }
+}
+
+export async function gradebookDeleteAssignment(id: string) {
+  await gradebookRequest('readwrite', (store) => store.delete(id))
+}
+
+export function newAssignmentRecord(params: {
+  className: string
+  date: string
+  homeworkTitle: string
+  gradingScaleId: string
+  customMaxScore: number
+}): AssignmentRecord {
+  const now = Date.now()
+  return { id: uid(), ...params, entries: [], createdAt: now, updatedAt: now }
+}
+
+export function assignmentLabel(a: Pick<AssignmentRecord, 'className' | 'date' | 'homeworkTitle'>) {
+  return [a.className || '（未填班级）', a.date, a.homeworkTitle || '（未命名作业）'].join(' · ')
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  GRADING_SCALE_PRESETS,
+  chineseToNumber,
+  gradeToPercent,
+  parseGrade,
+  resolveGradingScale,
+} from './grading.ts'
+
+const [percent, ten, oneFifty, level4, letter, stars] = GRADING_SCALE_PRESETS
+
+describe('chineseToNumber', () => {
+  it.each([
+    ['九十五', 95],
+    ['十', 10],
+    ['十五', 15],
+    ['一百', 100],
+    ['一百零八', 108],
+    ['一百四十', 140],
+    ['一百五', 150],
+    ['一千', 1000],
+    ['一千二', 1200],
+    ['两千零五', 2005],
+    ['九五', 95],
+    ['一零零', 100],
+    ['八十五点五', 85.5],
+    ['八十点五', 80.5],
+    ['九十五分', 95],
+    ['88', 88],
+    ['85.5', 85.5],
+  ])('reads %s as %d', (spoken, value) => {
+    expect(chineseToNumber(spoken)).toBe(value)
+  })
+
+  it('returns null when nothing is left to read', () => {
+    expect(chineseToNumber('分')).toBeNull()
+    expect(chineseToNumber('')).toBeNull()
+  })
+})
+
+describe('parseGrade', () => {
+  it('keeps half points on the numeric presets', () => {
+    expect(parseGrade('八十五点五', percent)).toBe(85.5)
+    expect(parseGrade('一百三十九点五', oneFifty)).toBe(139.5)
+    expect(parseGrade('八点五', ten)).toBe(8.5)
+    expect(parseGrade('八十五点三', percent)).toBe(85.5)
+  })
+
+  it('clamps to the scale and reads 满分', () => {
+    expect(parseGrade('一百二十', percent)).toBe(100)
+    expect(parseGrade('满分', oneFifty)).toBe(150)
+    expect(parseGrade('满分', resolveGradingScale('custom', 120))).toBe(120)
+  })
+
+  it('maps level aliases to their label and rejects numbers', () => {
+    expect(parseGrade('优秀', level4)).toBe('优')
+    expect(parseGrade('及格', level4)).toBe('中')
+    expect(parseGrade('90', level4)).toBeNull()
+  })
+})
+
+describe('level scales', () => {
+  it('reads letter grades case-insensitively, with spoken 加/减', () => {
+    expect(parseGrade('a加', letter)).toBe('A+')
+    expect(parseGrade('B-', letter)).toBe('B-')
+    expect(parseGrade('b 减', letter)).toBe('B-')
+    expect(parseGrade('F', letter)).toBe('E')
+    expect(parseGrade('G', letter)).toBeNull()
+  })
+
+  it('reads star ratings in words or digits', () => {
+    expect(parseGrade('两颗星', stars)).toBe('二星')
+    expect(parseGrade('5星', stars)).toBe('五星')
+  })
+
+  it('compares grades across scales as percentages', () => {
+    expect(gradeToPercent(120, oneFifty)).toBe(80)
+    expect(gradeToPercent(8.5, ten)).toBe(85)
+    expect(gradeToPercent('良', level4)).toBe(85)
+    expect(gradeToPercent('A', letter)).toBe(93)
+    expect(gradeToPercent('', percent)).toBeNull()
+  })
+
+  it('falls back to 100 for a custom scale without a usable maximum', () => {
+    expect(resolveGradingScale('custom', 0)).toMatchObject({ kind: 'numeric', max: 100 })
+    expect(resolveGradingScale('custom', 120)).toMatchObject({ kind: 'numeric', max: 120 })
+    expect(resolveGradingScale('unknown', 120)).toBe(percent)
+  })
+})
@@ -0,0 +1,213 @@
+export const CHINESE_DIGITS: Record<string, number> = {
+  零: 0,
+  〇: 0,
+  幺: 1,
+  一: 1,
+  二: 2,
+  两: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+}
+
+function chineseIntegerToNumber(s: string) {
+  if (/^\d+$/.test(s)) return Number.parseInt(s, 10)
+
+  const chars = Array.from(s)
+  // Shorthand read digit by digit: "九五" -> 95, "一零零" -> 100
+  if (chars.length >= 2 && chars.every((ch) => ch in CHINESE_DIGITS)) {
+    return Number.parseInt(chars.map((ch) => CHINESE_DIGITS[ch]).join(''), 10)
+  }
+
+  // Basic Chinese numerals up to 9999
+  let total = 0
+  let current = 0
+  let seenAny = false
+  let lastUnit = 0
+
+  const flushUnit = (unit: number) => {
+    if (!seenAny) return
+    if (current === 0) current = 1 // e.g. "十" -> 10
+    total += current * unit
+    current = 0
+  }
+
+  for (const ch of chars) {
+    if (ch in CHINESE_DIGITS) {
+      current = CHINESE_DIGITS[ch]
+      seenAny = true
+      continue
+    }
+    if (ch === '千') {
+      seenAny = true
+      flushUnit(1000)
+      lastUnit = 1000
+      continue
+    }
+    if (ch === '百') {
+      seenAny = true
+      flushUnit(100)
+      lastUnit = 100
+      continue
+    }
+    if (ch === '十') {
+      seenAny = true
+      flushUnit(10)
+      lastUnit = 10
+      continue
+    }
+    // ignore unknown chars
+  }
+  if (!seenAny) return null
+  // A lone digit right after 百/千 is the next unit down: "一百五" -> 150, "一千二" -> 1200
+  // ("一百零五" keeps the 零 and stays 105)
+  if (lastUnit >= 100 && current && /[百千]/.test(chars[chars.length - 2] ?? '')) current *= lastUnit / 10
+  total += current
+  return total
+}
+
+export function chineseToNumber(raw: string) {
+  const s = raw.replace(/分/g, '').trim()
+  if (!s) return null
+  if (/^\d{1,3}(?:\.\d+)?$/.test(s)) return Number(s)
+
+  // Decimals: "八十五点五" -> 85.5
+  const [intPart, fracPart] = s.split(/点|\./, 2)
+  const intValue = intPart ? chineseIntegerToNumber(intPart) : 0
+  if (intValue === null) return null
+  if (fracPart === undefined) return intValue
+
+  const fracDigits = Array.from(fracPart).map((ch) => (/\d/.test(ch) ? ch : String(CHINESE_DIGITS[ch] ?? '')))
+  if (!fracDigits.length || fracDigits.some((d) => !d)) return intValue
+  return Number(`${intValue}.${fracDigits.join('')}`)
+}
+
+export function clampScore(n: number, max = 100) {
+  if (Number.isNaN(n)) return null
+  if (n < 0) return 0
+  if (n > max) return max
+  return n
+}
+
+// Grading scales: numeric scales store a number in [0, max]; level scales store the level label.
+export type GradeValue = number | string
+
+type GradeLevel = {
+  label: string
+  /** Spoken / typed forms, e.g. "优秀" for 优 or "A加" for A+ */
+  aliases: string[]
+  /** Equivalent percentage, used to compare with numeric scales */
+  percent: number
+}
+
+export type GradingScale =
+  | { id: string; label: string; kind: 'numeric'; max: number; step: number }
+  | { id: string; label: string; kind: 'levels'; levels: GradeLevel[] }
+
+export const GRADING_SCALE_CUSTOM = 'custom'
+export const GRADING_SCALE_PRESETS: GradingScale[] = [
+  { id: 'percent', label: '百分制（0-100）', kind: 'numeric', max: 100, step: 0.5 },
+  { id: 'ten', label: '10 分制', kind: 'numeric', max: 10, step: 0.5 },
+  { id: 'one-fifty', label: '150 分制', kind: 'numeric', max: 150, step: 0.5 },
+  {
+    id: 'level4',
+    label: '等级制（优/良/中/差）',
+    kind: 'levels',
+    levels: [
+      { label: '优', aliases: ['优', '优秀'], percent: 95 },
+      { label: '良', aliases: ['良', '良好'], percent: 85 },
+      { label: '中', aliases: ['中', '中等', '及格'], percent: 70 },
+      { label: '差', aliases: ['差', '较差', '不及格'], percent: 50 },
+    ],
+  },
+  {
+    id: 'letter',
+    label: '字母等级（A+/A/B…）',
+    kind: 'levels',
+    levels: [
+      { label: 'A+', aliases: ['A+', 'A加'], percent: 98 },
+      { label: 'A', aliases: ['A'], percent: 93 },
+      { label: 'A-', aliases: ['A-', 'A减'], percent: 90 },
+      { label: 'B+', aliases: ['B+', 'B加'], percent: 87 },
+      { label: 'B', aliases: ['B'], percent: 83 },
+      { label: 'B-', aliases: ['B-', 'B减'], percent: 80 },
+      { label: 'C+', aliases: ['C+', 'C加'], percent: 77 },
+      { label: 'C', aliases: ['C'], percent: 73 },
+      { label: 'C-', aliases: ['C-', 'C减'], percent: 70 },
+      { label: 'D', aliases: ['D'], percent: 60 },
+      { label: 'E', aliases: ['E', 'F'], percent: 50 },
+    ],
+  },
+  {
+    id: 'stars',
+    label: '星级（1-5 星）',
+    kind: 'levels',
+    levels: [
+      { label: '五星', aliases: ['五星', '5星', '五颗星', '5颗星'], percent: 100 },
+      { label: '四星', aliases: ['四星', '4星', '四颗星', '4颗星'], percent: 80 },
+      { label: '三星', aliases: ['三星', '3星', '三颗星', '3颗星'], percent: 60 },
+      { label: '二星', aliases: ['二星', '两星', '2星', '两颗星', '2颗星'], percent: 40 },
+      { label: '一星', aliases: ['一星', '1星', '一颗星', '1颗星'], percent: 20 },
+    ],
+  },
+]
+
+export function resolveGradingScale(id: string, customMax: number): GradingScale {
+  if (id === GRADING_SCALE_CUSTOM) {
+    const max = Number.isFinite(customMax) && customMax > 0 ? customMax : 100
+    return { id: GRADING_SCALE_CUSTOM, label: `自定义（满分 ${max}）`, kind: 'numeric', max, step: 0.5 }
+  }
+  return GRADING_SCALE_PRESETS.find((s) => s.id === id) ?? GRADING_SCALE_PRESETS[0]
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/** Regex source (no capture groups) for a spoken grade on this scale. */
+export function gradePatternSource(scale: GradingScale) {
+  if (scale.kind === 'numeric') {
+    return '[0-9]{1,3}(?:\\.[0-9])?|[零〇一二两三四五六七八九十百]{1,6}(?:点[零〇一二三四五六七八九])?|满分?'
+  }
+  const aliases = scale.levels.flatMap((l) => l.aliases).sort((a, b) => b.length - a.length)
+  return aliases.map(escapeRegExp).join('|')
+}
+
+function roundToStep(n: number, step: number) {
+  return Math.round(n / step) * step
+}
+
+/** Parse a spoken or typed grade; numeric values are clamped to the scale and rounded to its step. */
+export function parseGrade(raw: string, scale: GradingScale): GradeValue | null {
+  const s = raw.trim()
+  if (!s) return null
+  if (scale.kind === 'levels') {
+    const upper = s.replace(/\s+/g, '').toUpperCase()
+    const level = scale.levels.find((l) => l.aliases.some((a) => a.toUpperCase() === upper))
+    return level ? level.label : null
+  }
+  if (/^满分?$/.test(s)) return scale.max
+  const num = /^\d+(?:\.\d+)?$/.test(s) ? Number(s) : chineseToNumber(s)
+  if (num === null) return null
+  const clamped = clampScore(num, scale.max)
+  if (clamped === null) return null
+  return roundToStep(clamped, scale.step)
+}
+
+/** Grade as a 0-100 percentage so that different scales can be compared. */
+export function gradeToPercent(value: GradeValue | '', scale: GradingScale) {
+  if (value === '') return null
+  if (scale.kind === 'levels') return scale.levels.find((l) => l.label === value)?.percent ?? null
+  const n = Number(value)
+  if (!Number.isFinite(n)) return null
+  return Math.round((n / scale.max) * 1000) / 10
+}
+
+export function describeGradingScale(scale: GradingScale) {
+  if (scale.kind === 'numeric') return `0-${scale.max} 的数字（最小单位 ${scale.step}）`
+  return `以下等级之一的字符串：${scale.levels.map((l) => JSON.stringify(l.label)).join('、')}`
+}
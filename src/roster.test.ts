@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeRoster, normalizeStudentId } from './roster.ts'
+
+describe('normalizeStudentId', () => {
+  it('reads ids spoken digit by digit', () => {
+    expect(normalizeStudentId('二零二四零一')).toBe('202401')
+    expect(normalizeStudentId('二〇二四 幺零三')).toBe('2024103')
+    expect(normalizeStudentId('两零两四')).toBe('2024')
+  })
+
+  it('keeps only the digits of a typed id', () => {
+    expect(normalizeStudentId(' 2024-01 ')).toBe('202401')
+    // Too short to be read as an id: a spoken score such as "九五" stays a score
+    expect(normalizeStudentId('九五')).toBe('')
+  })
+})
+
+describe('normalizeRoster', () => {
+  it('reads id and name in either order and drops duplicates', () => {
+    expect(normalizeRoster('202401 张三\n李四\t202402\n3. 王五同学\n202401 张三\n李四')).toEqual([
+      { studentId: '202401', name: '张三' },
+      { studentId: '202402', name: '李四' },
+      { studentId: '', name: '王五' },
+    ])
+  })
+})
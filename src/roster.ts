@@ -0,0 +1,130 @@
+import { CHINESE_DIGITS } from './grading.ts'
+
+export type RosterItem = {
+  studentId: string
+  name: string
+}
+
+export function rosterItemsToText(items: RosterItem[]) {
+  return items
+    .map((it) => {
+      const id = normalizeStudentId(it.studentId)
+      const name = normalizeStudentName(it.name)
+      if (!name) return ''
+      return id ? `${id}\t${name}` : name
+    })
+    .filter(Boolean)
+    .join('\n')
+}
+
+// Student ids read digit by digit, e.g. "二零二四零一"
+export const SPOKEN_ID_RE = /^[零〇幺一二两三四五六七八九]{4,}$/
+
+export function normalizeStudentId(raw: string) {
+  const s = raw.replace(/\s+/g, '')
+  const ascii = SPOKEN_ID_RE.test(s) ? Array.from(s, (ch) => CHINESE_DIGITS[ch]).join('') : raw
+  return ascii.replace(/[^\d]/g, '').trim()
+}
+
+export function normalizeStudentName(raw: string) {
+  const cleaned = raw
+    .trim()
+    .replace(/[，,。.\t]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/^\d+\s*/g, '') // strip leading index
+    .replace(/^(姓名|名字|学号|學號)[:：]\s*/g, '')
+    .replace(/(同学|同學)$/g, '')
+    .trim()
+
+  const onlyZh = cleaned.replace(/[^\u4e00-\u9fa5]/g, '')
+  return (onlyZh || cleaned).trim()
+}
+
+export function parseRosterLine(line: string): RosterItem | null {
+  const s = line.trim()
+  if (!s) return null
+  // Common patterns:
+  // - "202401 张三"
+  // - "张三 202401"
+  // - "张三"
+  const tokens = s.split(/[\s,，;；]+/g).filter(Boolean)
+  let id = ''
+  let name = ''
+
+  for (const t of tokens) {
+    const maybeId = normalizeStudentId(t)
+    const maybeName = normalizeStudentName(t)
+    if (!id && maybeId && maybeId.length >= 4) id = maybeId
+    if (!name && maybeName && /[\u4e00-\u9fa5]{2,8}/.test(maybeName)) name = maybeName
+  }
+
+  if (!name) {
+    // fallback: try extracting name from whole line
+    const n = normalizeStudentName(s)
+    if (n && /[\u4e00-\u9fa5]{2,8}/.test(n)) name = n
+  }
+  if (!id) {
+    // fallback: first long digit sequence
+    const m = s.match(/\d{4,}/)
+    if (m) id = normalizeStudentId(m[0])
+  }
+  if (!name) return null
+  return { studentId: id, name }
+}
+
+export function normalizeRoster(text: string): RosterItem[] {
+  const items = text
+    .split(/\r?\n/g)
+    .map((s) => parseRosterLine(s))
+    .filter((x): x is RosterItem => Boolean(x))
+
+  // Dedupe: prefer studentId; otherwise by name
+  const byId = new Map<string, RosterItem>()
+  const byName = new Map<string, RosterItem>()
+  for (const it of items) {
+    const id = normalizeStudentId(it.studentId)
+    const name = normalizeStudentName(it.name)
+    const normalized: RosterItem = { studentId: id, name }
+    if (id) byId.set(id, normalized)
+    else byName.set(name, normalized)
+  }
+  const merged = [...byId.values()]
+  for (const it of byName.values()) {
+    // if same name already exists with id, skip
+    if (merged.some((x) => x.name === it.name)) continue
+    merged.push(it)
+  }
+  return merged
+}
+
+export function uniqueNames(names: string[]) {
+  const seen = new Set<string>()
+  const out: string[] = []
+  for (const n of names) {
+    const cleaned = normalizeStudentName(n)
+    if (!cleaned) continue
+    if (seen.has(cleaned)) continue
+    seen.add(cleaned)
+    out.push(cleaned)
+  }
+  return out
+}
+
+export function uniqueRosterItems(items: RosterItem[]) {
+  const byId = new Map<string, RosterItem>()
+  const byName = new Map<string, RosterItem>()
+  for (const it of items) {
+    const id = normalizeStudentId(it.studentId)
+    const name = normalizeStudentName(it.name)
+    if (!name) continue
+    const normalized: RosterItem = { studentId: id, name }
+    if (id) byId.set(id, normalized)
+    else byName.set(name, normalized)
+  }
+  const merged = [...byId.values()]
+  for (const it of byName.values()) {
+    if (merged.some((x) => x.name === it.name)) continue
+    merged.push(it)
+  }
+  return merged
+}
@@ -0,0 +1,70 @@
+export type SpeechEngineId = 'web-speech' | 'local-whisper' | 'file-replay'
+
+export type SpeechAlternative = { transcript: string; confidence: number }
+
+// Same shape as the Web Speech result list, so native events are passed through as-is
+type SpeechResultBatch = {
+  resultIndex: number
+  results: ArrayLike<ArrayLike<SpeechAlternative> & { isFinal: boolean }>
+}
+
+type SpeechRecognizerHandlers = {
+  onStart: () => void
+  onResult: (batch: SpeechResultBatch) => void
+  onError: (error: SpeechRecognitionErrorCode, message: string) => void
+  onEnd: () => void
+}
+
+// Follows SpeechRecognition: start() may throw while already running, and every start ends in exactly one onEnd.
+type SpeechRecognizer = {
+  start: () => void
+  stop: () => void
+  abort: () => void
+  // Stops while the app talks; the next start() carries on. Engines without it are simply stopped.
+  pause?: () => void
+}
+
+export type SpeechEngine = {
+  id: SpeechEngineId
+  label: string
+  // Empty when the engine can run in this browser
+  unavailableReason: string
+  // Engines that produce a single hypothesis ignore maxAlternatives
+  createRecognizer: (options: { lang: string; maxAlternatives: number }, handlers: SpeechRecognizerHandlers) => SpeechRecognizer
+}
+
+export const SPEECH_ENGINE_LABELS: Record<SpeechEngineId, string> = {
+  'web-speech': '浏览器语音识别（Web Speech）',
+  'local-whisper': '本地 Whisper（实验性，需先下载模型）',
+  'file-replay': '文件回放（测试用）',
+}
+
+export function isSpeechEngineId(v: unknown): v is SpeechEngineId {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(SPEECH_ENGINE_LABELS, v)
+}
+
+export function speechBatch(alternatives: SpeechAlternative[], isFinal = true): SpeechResultBatch {
+  return { resultIndex: 0, results: [Object.assign([...alternatives], { isFinal })] }
+}
+
+export function createWebSpeechEngine(): SpeechEngine {
+  const Ctor = window.SpeechRecognition ?? window.webkitSpeechRecognition
+  return {
+    id: 'web-speech',
+    label: SPEECH_ENGINE_LABELS['web-speech'],
+    unavailableReason: Ctor ? '' : '当前浏览器不支持 Web Speech API（建议使用桌面版 Chrome，或自行部署本地 Whisper 引擎）。',
+    createRecognizer: ({ lang, maxAlternatives }, handlers) => {
+      if (!Ctor) throw new Error('当前浏览器不支持 Web Speech API。')
+      const rec = new Ctor()
+      rec.lang = lang
+      rec.continuous = true
+      rec.interimResults = true
+      rec.maxAlternatives = maxAlternatives
+      rec.onstart = () => handlers.onStart()
+      rec.onresult = (ev) => handlers.onResult(ev)
+      rec.onerror = (ev) => handlers.onError(ev.error, ev.message)
+      rec.onend = () => handlers.onEnd()
+      return { start: () => rec.start(), stop: () => rec.stop(), abort: () => rec.abort() }
+    },
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+import { guidedStudentOrder } from './guided.ts'
+
+const roster = [
+  { studentId: '2024001', name: '张三' },
+  { studentId: '2024002', name: '李四' },
+]
+
+describe('roster-order dictation', () => {
+  it('takes a custom order by id or full name and reports other lines as unknown', () => {
+    const { students, unknown } = guidedStudentOrder({
+      order: 'custom',
+      roster,
+      entries: [],
+      customText: '2024002\n张三丰\n张三同学\n王五',
+    })
+    expect(students.map((s) => s.name)).toEqual(['李四', '张三'])
+    expect(unknown).toEqual(['张三丰', '王五'])
+  })
+})
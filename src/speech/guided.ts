@@ -0,0 +1,80 @@
+import { STATUS_COMMAND_KEYWORDS } from '../dictation.ts'
+import { type Entry, type EntryStatus, pendingRosterStudents } from '../entries.ts'
+import { type GradeValue, type GradingScale, parseGrade } from '../grading.ts'
+import { type RosterItem, normalizeStudentId, parseRosterLine } from '../roster.ts'
+
+// Roster-order dictation: the app names each student in turn and the teacher answers with the grade only
+export type GuidedOrder = 'roster' | 'pending' | 'custom'
+
+export const GUIDED_ORDER_LABELS: Record<GuidedOrder, string> = {
+  roster: '花名册顺序',
+  pending: '花名册顺序（只点尚未录入的）',
+  custom: '自定义顺序',
+}
+
+export type GuidedRun = {
+  students: RosterItem[]
+  // students.length once everyone has been called
+  index: number
+  announce: boolean
+}
+
+type GuidedReply =
+  | { kind: 'score'; score: GradeValue; late: boolean }
+  | { kind: 'status'; status: Exclude<EntryStatus, 'graded'> }
+  | { kind: 'skip' }
+  | { kind: 'previous' }
+
+const GUIDED_SKIP_RE = /^(?:跳过|下一个|下一位)$/
+// "不对" after a read-back also goes back, so the previous student can be graded again
+const GUIDED_PREVIOUS_RE = /^(?:上一个|上一位|返回|不对|错了)$/
+const GUIDED_NUMBER_RE = /^(?:\d+(?:\.\d+)?|[零〇一二两三四五六七八九十百点]+|满)$/
+
+/** Parse a reply in guided mode; it never names the student, so a bare grade is enough. */
+export function parseGuidedReply(text: string, scale: GradingScale): GuidedReply | null {
+  const s = text.replace(/\s+/g, '').replace(/[，。！？,!?]+$/, '')
+  if (!s) return null
+  if (GUIDED_SKIP_RE.test(s)) return { kind: 'skip' }
+  if (GUIDED_PREVIOUS_RE.test(s)) return { kind: 'previous' }
+  const late = s.startsWith('补交')
+  const rest = late ? s.slice('补交'.length) : s
+  const status = STATUS_COMMAND_KEYWORDS[rest]
+  if (status && status !== 'late') return { kind: 'status', status }
+  if (late && !rest) return { kind: 'status', status: 'late' }
+  const spoken = rest.replace(/^(?:得|是)/, '').replace(/分$/, '')
+  // chineseToNumber reads digits out of any text ("张三95" → 3), so only pass it a bare number
+  if (scale.kind === 'numeric' && !GUIDED_NUMBER_RE.test(spoken)) return null
+  const score = parseGrade(spoken, scale)
+  return score === null ? null : { kind: 'score', score, late }
+}
+
+/**
+ * Students to call in the chosen order. Custom order lists one 学号 or name per line;
+ * lines that match nobody on the roster are returned as unknown.
+ */
+export function guidedStudentOrder(params: {
+  order: GuidedOrder
+  roster: RosterItem[]
+  entries: Entry[]
+  customText: string
+}): { students: RosterItem[]; unknown: string[] } {
+  const { order, roster, entries, customText } = params
+  if (order === 'roster') return { students: roster, unknown: [] }
+  if (order === 'pending') return { students: pendingRosterStudents(roster, entries), unknown: [] }
+  const students: RosterItem[] = []
+  const unknown: string[] = []
+  for (const raw of customText.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line) continue
+    const id = normalizeStudentId(line)
+    // Lines like "张三同学" are cleaned as roster lines are, but the name must match in full: 张三丰 is not 张三
+    const name = parseRosterLine(line)?.name
+    const student =
+      roster.find((r) => r.name === line) ??
+      (id ? roster.find((r) => r.studentId === id) : undefined) ??
+      (name ? roster.find((r) => r.name === name) : undefined)
+    if (!student) unknown.push(line)
+    else if (!students.includes(student)) students.push(student)
+  }
+  return { students, unknown }
+}
@@ -0,0 +1,283 @@
+import { SPEECH_ENGINE_LABELS, type SpeechEngine, speechBatch } from './engines.ts'
+
+// A local model is a plain ES module (see README「本地 Whisper 引擎」) exporting
+//   load({ lang }) → Promise<{ transcribe(samples: Float32Array, sampleRate: number): Promise<string> }>
+// so the model is never bundled into the app. public/asr/whisper.js is such a module (transformers.js + whisper-base);
+// its runtime and model are downloaded separately with `pnpm asr:fetch`, so the engine stays unavailable until the
+// teacher enters a module URL.
+type LocalAsrModel = {
+  transcribe: (samples: Float32Array, sampleRate: number) => Promise<string>
+}
+
+// Where the bundled public/asr/whisper.js is served; shown as the address field's placeholder
+export const LOCAL_ASR_EXAMPLE_MODULE_URL = '/asr/whisper.js'
+const LOCAL_ASR_SAMPLE_RATE = 16000
+const LOCAL_ASR_FRAME_SIZE = 4096
+// Simple energy VAD: an utterance ends after this much quiet, and is cut at the maximum length Whisper handles well
+const LOCAL_ASR_SPEECH_RMS = 0.015
+const LOCAL_ASR_SILENCE_MS = 700
+const LOCAL_ASR_MIN_SPEECH_MS = 300
+const LOCAL_ASR_MAX_UTTERANCE_MS = 15_000
+
+const localAsrModels = new Map<string, Promise<LocalAsrModel>>()
+
+// Runs on the audio thread: gathers 128-sample render quanta into frames of processorOptions.frameSize
+// and posts them to the page, which runs the VAD. Outputs stay silent.
+const LOCAL_ASR_CAPTURE_PROCESSOR = 'local-asr-capture'
+const LOCAL_ASR_CAPTURE_WORKLET = `
+class LocalAsrCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super()
+    this.frame = new Float32Array(options.processorOptions.frameSize)
+    this.filled = 0
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0]
+    for (let i = 0; channel && i < channel.length; ) {
+      const n = Math.min(channel.length - i, this.frame.length - this.filled)
+      this.frame.set(channel.subarray(i, i + n), this.filled)
+      this.filled += n
+      i += n
+      if (this.filled === this.frame.length) {
+        this.port.postMessage(this.frame, [this.frame.buffer])
+        this.frame = new Float32Array(this.frame.length)
+        this.filled = 0
+      }
+    }
+    return true
+  }
+}
+registerProcessor('${LOCAL_ASR_CAPTURE_PROCESSOR}', LocalAsrCapture)
+`
+let localAsrCaptureWorkletUrl: string | null = null
+
+function localAsrCaptureWorklet() {
+  localAsrCaptureWorkletUrl ??= URL.createObjectURL(new Blob([LOCAL_ASR_CAPTURE_WORKLET], { type: 'text/javascript' }))
+  return localAsrCaptureWorkletUrl
+}
+
+function loadLocalAsrModel(moduleUrl: string, lang: string) {
+  const url = new URL(moduleUrl, window.location.href).href
+  const key = `${url}#${lang}`
+  let model = localAsrModels.get(key)
+  if (!model) {
+    model = (import(/* @vite-ignore */ url) as Promise<{ load?: unknown }>).then((mod) => {
+      if (typeof mod.load !== 'function') throw new Error(`本地识别模块 ${moduleUrl} 没有导出 load()。`)
+      return (mod.load as (options: { lang: string }) => Promise<LocalAsrModel>)({ lang })
+    })
+    // Let the next start retry a failed load (wrong URL, model files not copied yet)
+    model.catch(() => localAsrModels.delete(key))
+    localAsrModels.set(key, model)
+  }
+  return model
+}
+
+function resampleLinear(samples: Float32Array, fromRate: number, toRate: number) {
+  if (fromRate === toRate) return samples
+  const out = new Float32Array(Math.floor((samples.length * toRate) / fromRate))
+  const step = fromRate / toRate
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * step
+    const j = Math.floor(pos)
+    const next = samples[Math.min(j + 1, samples.length - 1)]
+    out[i] = samples[j] + (next - samples[j]) * (pos - j)
+  }
+  return out
+}
+
+function rms(samples: Float32Array) {
+  let sum = 0
+  for (const s of samples) sum += s * s
+  return Math.sqrt(sum / (samples.length || 1))
+}
+
+function micErrorCode(e: unknown): SpeechRecognitionErrorCode {
+  if (e instanceof DOMException && (e.name === 'NotAllowedError' || e.name === 'SecurityError')) return 'not-allowed'
+  return 'audio-capture'
+}
+
+export function createLocalWhisperEngine(moduleUrl: string): SpeechEngine {
+  const missing = [
+    typeof WebAssembly === 'undefined' ? 'WebAssembly' : '',
+    typeof AudioContext === 'undefined' ? 'Web Audio' : '',
+    typeof AudioWorkletNode === 'undefined' ? 'AudioWorklet（需 HTTPS 或 localhost）' : '',
+    typeof navigator.mediaDevices?.getUserMedia === 'function' ? '' : '麦克风（需 HTTPS 或 localhost）',
+  ].filter(Boolean)
+  return {
+    id: 'local-whisper',
+    label: SPEECH_ENGINE_LABELS['local-whisper'],
+    unavailableReason: missing.length
+      ? `当前浏览器缺少本地识别所需的 ${missing.join('、')}。`
+      : moduleUrl
+        ? ''
+        : `本地 Whisper 是实验功能，模型需另行下载：先运行 pnpm asr:fetch，再填写模块地址 ${LOCAL_ASR_EXAMPLE_MODULE_URL}（见 README「本地 Whisper 引擎」）。`,
+    createRecognizer: ({ lang }, handlers) => {
+      // Bumped on every start/abort so late audio frames and transcriptions of an old run are dropped
+      let generation = 0
+      let running = false
+      let stopping = false
+      let stream: MediaStream | null = null
+      let ctx: AudioContext | null = null
+      let frames: Float32Array[] = []
+      let preRoll: Float32Array | null = null
+      let speechMs = 0
+      let silenceMs = 0
+      let pending = Promise.resolve()
+      // Set once audio is flowing; flushes the current utterance before ending
+      let stopRun: (() => void) | null = null
+
+      const release = () => {
+        stream?.getTracks().forEach((t) => t.stop())
+        stream = null
+        void ctx?.close().catch(() => undefined)
+        ctx = null
+      }
+
+      const finish = (gen: number) => {
+        if (gen !== generation || !running) return
+        running = false
+        release()
+        handlers.onEnd()
+      }
+
+      const fail = (gen: number, error: SpeechRecognitionErrorCode, message: string) => {
+        if (gen !== generation || !running) return
+        handlers.onError(error, message)
+        finish(gen)
+      }
+
+      const endUtterance = (gen: number, model: LocalAsrModel, sampleRate: number) => {
+        const utterance = frames
+        const voicedMs = speechMs
+        frames = []
+        speechMs = 0
+        silenceMs = 0
+        if (voicedMs < LOCAL_ASR_MIN_SPEECH_MS) return
+        const joined = new Float32Array(utterance.reduce((n, f) => n + f.length, 0))
+        let offset = 0
+        for (const f of utterance) {
+          joined.set(f, offset)
+          offset += f.length
+        }
+        const samples = resampleLinear(joined, sampleRate, LOCAL_ASR_SAMPLE_RATE)
+        // Transcribe one utterance at a time so results arrive in speaking order
+        pending = pending.then(async () => {
+          if (gen !== generation) return
+          try {
+            const text = (await model.transcribe(samples, LOCAL_ASR_SAMPLE_RATE)).trim()
+            // confidence 0 means "not reported", as in Web Speech
+            if (text && gen === generation) handlers.onResult(speechBatch([{ transcript: text, confidence: 0 }]))
+          } catch (e) {
+            fail(gen, 'service-not-allowed', `本地模型识别失败：${e instanceof Error ? e.message : String(e)}`)
+          }
+        })
+      }
+
+      const onFrame = (gen: number, model: LocalAsrModel, sampleRate: number, frame: Float32Array) => {
+        if (gen !== generation || stopping) return
+        const ms = (frame.length / sampleRate) * 1000
+        if (rms(frame) >= LOCAL_ASR_SPEECH_RMS) {
+          // Keep the quiet frame just before speech so the first syllable is not clipped
+          if (!frames.length && preRoll) frames.push(preRoll)
+          frames.push(frame)
+          speechMs += ms
+          silenceMs = 0
+        } else if (frames.length) {
+          frames.push(frame)
+          silenceMs += ms
+          if (silenceMs >= LOCAL_ASR_SILENCE_MS) endUtterance(gen, model, sampleRate)
+        } else {
+          preRoll = frame
+        }
+        if (speechMs + silenceMs >= LOCAL_ASR_MAX_UTTERANCE_MS) endUtterance(gen, model, sampleRate)
+      }
+
+      const run = async (gen: number) => {
+        let model: LocalAsrModel
+        try {
+          model = await loadLocalAsrModel(moduleUrl, lang)
+        } catch (e) {
+          fail(gen, 'service-not-allowed', `无法加载本地识别模型：${e instanceof Error ? e.message : String(e)}`)
+          return
+        }
+        if (gen !== generation) return
+        if (stopping) return finish(gen)
+        try {
+          stream = await navigator.mediaDevices.getUserMedia({
+            audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+          })
+        } catch (e) {
+          fail(gen, micErrorCode(e), e instanceof Error ? e.message : '')
+          return
+        }
+        if (gen !== generation) {
+          stream.getTracks().forEach((t) => t.stop())
+          return
+        }
+        if (stopping) return finish(gen)
+        // The context runs at the device rate (Firefox cannot mix rates); utterances are resampled for the model
+        const context = new AudioContext()
+        ctx = context
+        try {
+          await context.audioWorklet.addModule(localAsrCaptureWorklet())
+        } catch (e) {
+          fail(gen, 'audio-capture', `无法启动录音处理：${e instanceof Error ? e.message : String(e)}`)
+          return
+        }
+        // release() has already closed the context if the run was aborted meanwhile
+        if (gen !== generation) return
+        if (stopping) return finish(gen)
+        const sampleRate = context.sampleRate
+        const source = context.createMediaStreamSource(stream)
+        const capture = new AudioWorkletNode(context, LOCAL_ASR_CAPTURE_PROCESSOR, {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          channelCount: 1,
+          channelCountMode: 'explicit',
+          processorOptions: { frameSize: LOCAL_ASR_FRAME_SIZE },
+        })
+        capture.port.onmessage = (ev: MessageEvent<Float32Array>) => onFrame(gen, model, sampleRate, ev.data)
+        source.connect(capture)
+        // Connected to the output so the graph keeps pulling audio through the worklet
+        capture.connect(context.destination)
+        handlers.onStart()
+        // Ended tracks (microphone unplugged) end the run like Web Speech does
+        stream.getAudioTracks()[0]?.addEventListener('ended', () => fail(gen, 'audio-capture', '麦克风已断开'))
+        stopRun = () => {
+          endUtterance(gen, model, sampleRate)
+          release()
+          void pending.then(() => finish(gen))
+        }
+      }
+
+      return {
+        start: () => {
+          if (running) throw new DOMException('本地识别已在运行', 'InvalidStateError')
+          generation++
+          running = true
+          stopping = false
+          stopRun = null
+          frames = []
+          preRoll = null
+          speechMs = 0
+          silenceMs = 0
+          void run(generation)
+        },
+        stop: () => {
+          if (!running || stopping) return
+          stopping = true
+          // Still loading: run() notices stopping once the model or microphone is ready
+          stopRun?.()
+        },
+        abort: () => {
+          if (!running) return
+          generation++
+          running = false
+          release()
+          frames = []
+          handlers.onEnd()
+        },
+      }
+    },
+  }
+}
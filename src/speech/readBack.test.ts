@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { READ_BACK_REJECT_RE, readBackText } from './readBack.ts'
+import { parseDictation } from '../dictation.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const [percent, , , , letter] = GRADING_SCALE_PRESETS
+const roster = [
+  { studentId: '202401', name: '张三' },
+  { studentId: '202402', name: '李四' },
+  { studentId: '202403', name: '王五' },
+]
+
+const readBack = (text: string, scale = percent) => readBackText(parseDictation(text, roster, scale), scale)
+
+describe('readBackText', () => {
+  it('reads back scores with the roster name the utterance resolved to', () => {
+    expect(readBack('李斯八十八 王五没交')).toBe('李四，88分。王五，缺交')
+  })
+
+  it('reads back commands', () => {
+    expect(readBack('张三补交 九十')).toBe('张三，补交90分')
+    expect(readBack('删除李四')).toBe('删除李四')
+    expect(readBack('撤销上一个')).toBe('撤销上一条')
+  })
+
+  it('says level grades in words', () => {
+    expect(readBack('张三A+ 李四B减', letter)).toBe('张三，A加。李四，B减')
+  })
+
+  it('says nothing when nothing was parsed', () => {
+    expect(readBack('今天天气不错')).toBe('')
+  })
+})
+
+describe('READ_BACK_REJECT_RE', () => {
+  it('matches a bare rejection only', () => {
+    expect(READ_BACK_REJECT_RE.test('不对')).toBe(true)
+    expect(READ_BACK_REJECT_RE.test('不对不对！')).toBe(true)
+    expect(READ_BACK_REJECT_RE.test('不对，张三九十')).toBe(false)
+  })
+})
@@ -0,0 +1,41 @@
+import type { DictationEdit } from '../dictation.ts'
+import { ENTRY_STATUS_LABELS, spokenTargetToStudent } from '../entries.ts'
+import type { GradeValue, GradingScale } from '../grading.ts'
+
+// Replies that reject what was just read back, e.g. "不对" / "错了"
+export const READ_BACK_REJECT_RE = /^(?:不对|不是|错了)+[，。！？,.!?\s]*$/
+
+export function spokenGrade(score: GradeValue, scale: GradingScale) {
+  if (typeof score === 'number') return `${score}分`
+  const level = scale.kind === 'levels' ? scale.levels.find((l) => l.label === score) : undefined
+  // "A加" reads better than "A+"
+  return level?.aliases.find((a) => !/[+-]/.test(a)) ?? score
+}
+
+/** What to say back for one utterance, e.g. "李四，88分。王五，缺交"; empty when nothing was parsed. */
+export function readBackText(edits: DictationEdit[], scale: GradingScale) {
+  return edits
+    .map((e) => {
+      if (e.kind === 'undo') return '撤销上一条'
+      if (e.kind === 'remove') return `删除${spokenTargetToStudent(e.target).name}`
+      if (e.kind === 'status') return `${spokenTargetToStudent(e.target).name}，${ENTRY_STATUS_LABELS[e.status]}`
+      return `${spokenTargetToStudent(e.pair).name}，${e.late ? '补交' : ''}${spokenGrade(e.pair.score, scale)}`
+    })
+    .join('。')
+}
+
+/** Speak through speechSynthesis; resolves when finished, failed or cancelled (never rejects). */
+export function speakText(text: string, lang = 'zh-CN') {
+  return new Promise<void>((resolve) => {
+    if (!('speechSynthesis' in window)) return resolve()
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = lang
+    // Chrome sometimes never fires end; do not leave recognition paused because of it
+    const timer = window.setTimeout(resolve, 3000 + text.length * 400)
+    utterance.onend = utterance.onerror = () => {
+      window.clearTimeout(timer)
+      resolve()
+    }
+    window.speechSynthesis.speak(utterance)
+  })
+}
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFileReplayEngine, parseSpeechReplayScript } from './replay.ts'
+
+describe('file-replay speech engine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('window', globalThis)
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  function replayRecognizer(script: string) {
+    const events: string[] = []
+    const recognizer = createFileReplayEngine(parseSpeechReplayScript(script).steps).createRecognizer(
+      { lang: 'zh-CN', maxAlternatives: 5 },
+      {
+        onStart: () => events.push('start'),
+        onResult: (batch) => {
+          const result = batch.results[batch.resultIndex]
+          const text = Array.from(result, (alt) => alt.transcript).join(' | ')
+          events.push(`${result.isFinal ? 'final' : 'interim'} ${text}`)
+        },
+        onError: (error) => events.push(`error ${error}`),
+        onEnd: () => events.push('end'),
+      },
+    )
+    return { recognizer, events }
+  }
+
+  it('reports unknown #error codes instead of replaying them', () => {
+    const script = parseSpeechReplayScript('张三 95\n#error network\n#error microphone\n# 注释\n#end')
+    expect(script.steps.map((step) => step.kind)).toEqual(['utterance', 'error', 'end'])
+    expect(script.problems).toHaveLength(1)
+    expect(script.problems[0]).toContain('第 3 行')
+  })
+
+  it('plays utterances with their alternatives and ends or fails where the script says', () => {
+    const { recognizer, events } = replayRecognizer('张山 95@0.4 | 张三 95@0.3\n#end\n李四 80\n#error network')
+
+    recognizer.start()
+    expect(() => recognizer.start()).toThrow()
+    vi.runAllTimers()
+    expect(events).toEqual(['start', 'interim 张山 95', 'final 张山 95 | 张三 95', 'end'])
+
+    // A self-end (#end) carries on from the next line, as Chrome does after silence
+    events.length = 0
+    recognizer.start()
+    vi.runAllTimers()
+    expect(events).toEqual(['start', 'interim 李四 80', 'final 李四 80', 'error network', 'end'])
+  })
+
+  it('carries on after a pause but starts over after the teacher stops', () => {
+    const { recognizer, events } = replayRecognizer('张三 95\n李四 80')
+
+    recognizer.start()
+    // Paused between the final result and the next line
+    vi.advanceTimersByTime(400)
+    recognizer.pause?.()
+    recognizer.start()
+    vi.runAllTimers()
+    recognizer.stop()
+    expect(events.filter((e) => e.startsWith('final'))).toEqual(['final 张三 95', 'final 李四 80'])
+
+    events.length = 0
+    recognizer.start()
+    vi.runAllTimers()
+    expect(events.filter((e) => e.startsWith('final'))).toEqual(['final 张三 95', 'final 李四 80'])
+  })
+})
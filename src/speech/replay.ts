@@ -0,0 +1,118 @@
+import { SPEECH_ENGINE_LABELS, type SpeechAlternative, type SpeechEngine, speechBatch } from './engines.ts'
+
+// File-replay script: one utterance per line, optionally as several hypotheses "张山 95@0.4 | 张三 95@0.3"
+// (best first, "@" gives the confidence). "#end" makes the recognizer end by itself (as Chrome does after
+// silence) and "#error <code>" raises a recognition error, so restarts can be exercised without a microphone.
+type SpeechReplayStep =
+  | { kind: 'utterance'; alternatives: SpeechAlternative[] }
+  | { kind: 'end' }
+  | { kind: 'error'; error: SpeechRecognitionErrorCode }
+
+// Lines that could not be used are reported rather than replayed as something else
+export type SpeechReplayScript = { steps: SpeechReplayStep[]; problems: string[] }
+
+const SPEECH_REPLAY_STEP_MS = 600
+
+const SPEECH_ERROR_CODES: readonly SpeechRecognitionErrorCode[] = [
+  'no-speech',
+  'aborted',
+  'audio-capture',
+  'network',
+  'not-allowed',
+  'service-not-allowed',
+  'bad-grammar',
+  'language-not-supported',
+]
+
+function isSpeechErrorCode(v: string): v is SpeechRecognitionErrorCode {
+  return (SPEECH_ERROR_CODES as readonly string[]).includes(v)
+}
+
+export function parseSpeechReplayScript(text: string): SpeechReplayScript {
+  const steps: SpeechReplayStep[] = []
+  const problems: string[] = []
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim()
+    if (!line) return
+    if (line === '#end') steps.push({ kind: 'end' })
+    else if (/^#error(\s|$)/.test(line)) {
+      const code = line.slice('#error'.length).trim() || 'network'
+      if (isSpeechErrorCode(code)) steps.push({ kind: 'error', error: code })
+      else problems.push(`第 ${i + 1} 行：未知的错误代码“${code}”（可用 ${SPEECH_ERROR_CODES.join('、')}），已跳过`)
+    } else if (!line.startsWith('#')) {
+      const alternatives = line
+        .split('|')
+        .map((alt) => {
+          const m = alt.trim().match(/^(.*?)(?:@(\d*\.?\d+))?$/)
+          return { transcript: (m?.[1] ?? '').trim(), confidence: Number(m?.[2] ?? 0) }
+        })
+        .filter((alt) => alt.transcript)
+      if (alternatives.length) steps.push({ kind: 'utterance', alternatives })
+    }
+  })
+  return { steps, problems }
+}
+
+export function createFileReplayEngine(steps: SpeechReplayStep[]): SpeechEngine {
+  return {
+    id: 'file-replay',
+    label: SPEECH_ENGINE_LABELS['file-replay'],
+    unavailableReason: steps.length ? '' : '请先载入回放脚本（文本文件，每行一句）。',
+    createRecognizer: ({ maxAlternatives }, handlers) => {
+      let cursor = 0
+      let timer: number | null = null
+      let running = false
+      // A teacher-initiated stop starts the next take from the top; self-ends (#end/#error) and pauses continue
+      let rewind = false
+
+      const end = () => {
+        if (timer !== null) window.clearTimeout(timer)
+        timer = null
+        if (!running) return
+        running = false
+        handlers.onEnd()
+      }
+
+      const next = () => {
+        timer = null
+        const step = steps[cursor]
+        // Past the end the script just stays silent until stopped, like an idle microphone
+        if (!step) return
+        cursor++
+        if (step.kind === 'end') return end()
+        if (step.kind === 'error') {
+          handlers.onError(step.error, '回放脚本')
+          return end()
+        }
+        const alternatives = step.alternatives.slice(0, maxAlternatives)
+        handlers.onResult(speechBatch(alternatives.slice(0, 1), false))
+        timer = window.setTimeout(() => {
+          handlers.onResult(speechBatch(alternatives))
+          timer = window.setTimeout(next, SPEECH_REPLAY_STEP_MS / 2)
+        }, SPEECH_REPLAY_STEP_MS / 2)
+      }
+
+      return {
+        start: () => {
+          if (running) throw new DOMException('回放已在运行', 'InvalidStateError')
+          if (rewind) cursor = 0
+          rewind = false
+          running = true
+          timer = window.setTimeout(() => {
+            handlers.onStart()
+            next()
+          }, 0)
+        },
+        stop: () => {
+          rewind = true
+          end()
+        },
+        abort: () => {
+          rewind = true
+          end()
+        },
+        pause: end,
+      }
+    },
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createFileReplayEngine, parseSpeechReplayScript } from './replay.ts'
+import { chooseDictationAlternative, createRecognitionSession, isSpokenInUtterances } from './session.ts'
+import { GRADING_SCALE_PRESETS } from '../grading.ts'
+
+const percent = GRADING_SCALE_PRESETS[0]
+const roster = [
+  { studentId: '202401', name: '张三' },
+  { studentId: '202402', name: '李四' },
+]
+
+describe('chooseDictationAlternative', () => {
+  const choose = (...alts: Array<[string, number]>) =>
+    chooseDictationAlternative(
+      alts.map(([transcript, confidence]) => ({ transcript, confidence })),
+      roster,
+      percent,
+    )
+
+  it('prefers the hypothesis that reads as a roster name and a grade', () => {
+    expect(choose(['张山就是五', 0.7], ['张三 95', 0])).toEqual({ transcript: '张三 95', lowConfidence: false })
+  })
+
+  it('keeps the recognizer ranking when hypotheses read equally well', () => {
+    expect(choose(['李四 80', 0.9], ['李四 80。', 0.8]).transcript).toBe('李四 80')
+  })
+
+  it('flags weak utterances using the top confidence when the choice has none', () => {
+    expect(choose(['张山就是五', 0.4], ['张三 95', 0])).toEqual({ transcript: '张三 95', lowConfidence: true })
+    expect(choose(['张三 95', 0])).toEqual({ transcript: '张三 95', lowConfidence: false })
+  })
+})
+
+describe('isSpokenInUtterances', () => {
+  it('finds an edit by its source text, ignoring spacing', () => {
+    expect(isSpokenInUtterances('张三 95', ['李四 80', '张三  95'])).toBe(true)
+    expect(isSpokenInUtterances('王五 70', ['张三 95'])).toBe(false)
+    expect(isSpokenInUtterances(' ', ['张三 95'])).toBe(false)
+  })
+})
+
+describe('recognition session', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('window', globalThis)
+  })
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  function replaySession(script: string) {
+    const finals: string[] = []
+    const states: string[] = []
+    const errors: string[] = []
+    const session = createRecognitionSession({
+      engine: createFileReplayEngine(parseSpeechReplayScript(script).steps),
+      lang: 'zh-CN',
+      onFinal: (text, lowConfidence) => finals.push(lowConfidence ? `${text}?` : text),
+      onInterim: () => {},
+      onStateChange: (state, failures) => states.push(failures ? `${state} ${failures}` : state),
+      onFatalError: (message) => errors.push(message),
+    })
+    return { session, finals, states, errors }
+  }
+
+  it('restarts after the recognizer ends by itself and keeps appending', () => {
+    const { session, finals, states } = replaySession('张三 95\n#end\n李四 80\n#end\n王五 70')
+    expect(session.start()).toBe(true)
+    vi.advanceTimersByTime(10_000)
+    expect(finals).toEqual(['张三 95', '李四 80', '王五 70'])
+    expect(states.slice(0, 4)).toEqual(['listening', 'reconnecting', 'listening', 'reconnecting'])
+
+    session.stop()
+    vi.runAllTimers()
+    expect(states[states.length - 1]).toBe('idle')
+  })
+
+  it('backs off on network errors and recovers once results come in again', () => {
+    const { session, finals, states, errors } = replaySession('#error network\n#error network\n张三 95')
+    session.start()
+    vi.advanceTimersByTime(10_000)
+    expect(states).toContain('reconnecting 1')
+    expect(states).toContain('reconnecting 2')
+    expect(finals).toEqual(['张三 95'])
+    expect(states[states.length - 1]).toBe('listening')
+    expect(errors).toEqual([])
+    session.abort()
+  })
+
+  it('gives up after too many failed reconnects in a row', () => {
+    const { session, states, errors } = replaySession('#error network\n'.repeat(8))
+    session.start()
+    vi.advanceTimersByTime(60_000)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toContain('连续 6 次重连失败')
+    expect(states[states.length - 1]).toBe('idle 6')
+  })
+
+  it('stops for errors it cannot recover from', () => {
+    const { session, finals, errors } = replaySession('#error not-allowed\n张三 95')
+    session.start()
+    vi.advanceTimersByTime(10_000)
+    expect(errors).toEqual(['语音识别错误：not-allowed（回放脚本）'])
+    expect(finals).toEqual([])
+  })
+})
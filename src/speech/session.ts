@@ -0,0 +1,257 @@
+import { normalizeTranscript, parseDictation } from '../dictation.ts'
+import type { GradingScale } from '../grading.ts'
+import type { RosterItem } from '../roster.ts'
+import type { SpeechAlternative, SpeechEngine } from './engines.ts'
+
+type SpeechChoice = { transcript: string; lowConfidence: boolean }
+
+// Web Speech confidences cluster around 0.8-0.95 for clear speech; 0 means the engine did not report one
+const SPEECH_LOW_CONFIDENCE = 0.6
+export const SPEECH_MAX_ALTERNATIVES = 5
+
+function isLowSpeechConfidence(confidence: number) {
+  return confidence > 0 && confidence < SPEECH_LOW_CONFIDENCE
+}
+
+function topSpeechAlternative(alternatives: SpeechAlternative[]): SpeechChoice {
+  const top = alternatives[0]
+  return { transcript: top?.transcript ?? '', lowConfidence: top ? isLowSpeechConfidence(top.confidence) : false }
+}
+
+/**
+ * How well a hypothesis reads as dictation: roster matches and parseable grades/commands count, so
+ * "张三 95" wins over the similar-sounding "张山就是五" even when the recognizer ranked it lower.
+ */
+function dictationHypothesisScore(text: string, roster: RosterItem[], scale: GradingScale) {
+  let score = 0
+  for (const e of parseDictation(text, roster, scale)) {
+    if (e.kind === 'undo') {
+      score += 1
+      continue
+    }
+    const t = e.kind === 'score' ? e.pair : e.target
+    score += t.matchType === 'exact' ? 3 : t.matchType === 'fuzzy' ? 1 + 2 * t.confidence : 1
+  }
+  return score
+}
+
+export function chooseDictationAlternative(
+  alternatives: SpeechAlternative[],
+  roster: RosterItem[],
+  scale: GradingScale,
+): SpeechChoice {
+  let chosen: SpeechAlternative | null = null
+  let bestScore = -Infinity
+  for (const [rank, alt] of alternatives.entries()) {
+    // The recognizer's own ranking only breaks ties
+    const score = dictationHypothesisScore(alt.transcript, roster, scale) - rank * 0.01
+    if (score > bestScore) {
+      chosen = alt
+      bestScore = score
+    }
+  }
+  if (!chosen) return topSpeechAlternative(alternatives)
+  // Lower-ranked hypotheses often carry no confidence of their own; then the top one speaks for the utterance
+  const confidence = chosen.confidence || alternatives[0].confidence
+  return { transcript: chosen.transcript, lowConfidence: isLowSpeechConfidence(confidence) }
+}
+
+/** Whether a parsed edit (by its source text) was heard in one of the given utterances. */
+export function isSpokenInUtterances(source: string, utterances: string[]) {
+  const needle = source.replace(/\s+/g, ' ').trim()
+  if (!needle) return false
+  return utterances.some((u) => {
+    const compact = u.replace(/\s+/g, ' ').trim()
+    return compact.includes(needle) || normalizeTranscript(compact).includes(needle)
+  })
+}
+
+type RecognitionSessionState = 'idle' | 'listening' | 'reconnecting' | 'paused'
+
+export type RecognitionSession = {
+  // false when the browser refused to start (e.g. start() called too quickly)
+  start: () => boolean
+  stop: () => void
+  abort: () => void
+  // Stops listening without ending the session, e.g. while the app itself is talking
+  pause: () => void
+  resume: () => void
+}
+
+// Chrome ends recognition after silence or about a minute and drops it on flaky networks; these just restart.
+const RECOGNITION_RECOVERABLE_ERRORS: ReadonlySet<SpeechRecognitionErrorCode> = new Set(['no-speech', 'network', 'aborted'])
+const RECOGNITION_RESTART_DELAY_MS = 150
+const RECOGNITION_MAX_BACKOFF_MS = 8000
+const RECOGNITION_MAX_FAILURES = 6
+
+// One recording session across any number of underlying recognition runs: while active, every end
+// (silence timeout, network hiccup) restarts recognition, and text is only ever appended via onFinal.
+export function createRecognitionSession(params: {
+  engine: SpeechEngine
+  lang: string
+  maxAlternatives?: number
+  // Picks among the recognizer's hypotheses for a final result; defaults to its top guess
+  chooseAlternative?: (alternatives: SpeechAlternative[]) => SpeechChoice
+  // lowConfidence marks text the teacher should double-check (weak hypothesis, or cut off before it was final)
+  onFinal: (text: string, lowConfidence: boolean) => void
+  onInterim: (text: string) => void
+  // failures counts consecutive network errors; it resets once results come in again
+  onStateChange: (state: RecognitionSessionState, failures: number) => void
+  onFatalError: (message: string) => void
+}): RecognitionSession {
+  const { engine, lang, maxAlternatives = 1, chooseAlternative = topSpeechAlternative } = params
+  const { onFinal, onInterim, onStateChange, onFatalError } = params
+  let active = false
+  let paused = false
+  let running = false
+  let failures = 0
+  let interim = ''
+  let restartTimer: number | null = null
+
+  const clearRestartTimer = () => {
+    if (restartTimer !== null) window.clearTimeout(restartTimer)
+    restartTimer = null
+  }
+
+  // An utterance cut off by an end never becomes final, so keep what was heard so far
+  const flushInterim = () => {
+    if (!interim) return
+    onFinal(interim, true)
+    interim = ''
+    onInterim('')
+  }
+
+  const run = () => {
+    running = true
+    try {
+      rec.start()
+      return true
+    } catch {
+      running = false
+      return false
+    }
+  }
+
+  const scheduleRestart = () => {
+    if (failures >= RECOGNITION_MAX_FAILURES) {
+      active = false
+      onStateChange('idle', failures)
+      onFatalError(`语音识别连续 ${failures} 次重连失败，已停止识别（请检查网络后重新开始）。`)
+      return
+    }
+    const delay = failures
+      ? Math.min(RECOGNITION_MAX_BACKOFF_MS, 1000 * 2 ** (failures - 1))
+      : RECOGNITION_RESTART_DELAY_MS
+    onStateChange('reconnecting', failures)
+    clearRestartTimer()
+    restartTimer = window.setTimeout(() => {
+      restartTimer = null
+      if (!active) return
+      if (!run()) {
+        failures++
+        scheduleRestart()
+      }
+    }, delay)
+  }
+
+  const rec = engine.createRecognizer({ lang, maxAlternatives }, {
+    onStart: () => {
+      if (active) onStateChange('listening', failures)
+    },
+    onResult: (batch) => {
+      let nextInterim = ''
+      const finals: SpeechChoice[] = []
+      for (let i = batch.resultIndex; i < batch.results.length; i++) {
+        const res = batch.results[i]
+        if (!res.isFinal) {
+          nextInterim += res[0]?.transcript ?? ''
+          continue
+        }
+        const choice = chooseAlternative(Array.from(res))
+        if (choice.transcript) finals.push(choice)
+      }
+      if (failures) {
+        failures = 0
+        if (active) onStateChange('listening', 0)
+      }
+      interim = nextInterim
+      for (const f of finals) onFinal(f.transcript, f.lowConfidence)
+      onInterim(nextInterim)
+    },
+    onError: (error, message) => {
+      if (!active) return
+      if (RECOGNITION_RECOVERABLE_ERRORS.has(error)) {
+        if (error === 'network') failures++
+        return
+      }
+      active = false
+      onFatalError(`语音识别错误：${error}${message ? `（${message}）` : ''}`)
+    },
+    onEnd: () => {
+      running = false
+      if (active && paused) {
+        flushInterim()
+        onStateChange('paused', failures)
+        return
+      }
+      if (active) {
+        flushInterim()
+        scheduleRestart()
+        return
+      }
+      flushInterim()
+      onStateChange('idle', failures)
+    },
+  })
+
+  return {
+    start: () => {
+      if (active) return true
+      clearRestartTimer()
+      failures = 0
+      interim = ''
+      active = true
+      // Still winding down from a previous stop(); its onend restarts recognition
+      if (running) return true
+      if (run()) return true
+      active = false
+      return false
+    },
+    stop: () => {
+      active = false
+      paused = false
+      clearRestartTimer()
+      if (running) rec.stop()
+      else {
+        flushInterim()
+        onStateChange('idle', failures)
+      }
+    },
+    abort: () => {
+      active = false
+      paused = false
+      clearRestartTimer()
+      interim = ''
+      if (running) rec.abort()
+      else onStateChange('idle', failures)
+    },
+    pause: () => {
+      if (!active || paused) return
+      paused = true
+      clearRestartTimer()
+      if (!running) onStateChange('paused', failures)
+      else if (rec.pause) rec.pause()
+      else rec.stop()
+    },
+    resume: () => {
+      if (!active || !paused) return
+      paused = false
+      // Still winding down from pause(); its onend restarts recognition
+      if (running) return
+      if (!run()) {
+        failures++
+        scheduleRestart()
+      }
+    },
+  }
+}
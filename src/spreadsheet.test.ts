@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest'
+import * as XLSX from 'xlsx'
+import type { Entry } from './entries.ts'
+import { resolveGradingScale } from './grading.ts'
+import {
+  type SheetRows,
+  detectRosterColumns,
+  exportToExcel,
+  parseExportedGradeSheet,
+  rosterClassesFromRows,
+  rosterItemsFromRows,
+} from './spreadsheet.ts'
+
+// Keep the exported workbook in memory instead of downloading it
+const written: XLSX.WorkBook[] = []
+vi.mock('xlsx', async (importOriginal) => {
+  const actual = await importOriginal<typeof XLSX>()
+  return {
+    ...actual,
+    writeFile: (wb: XLSX.WorkBook) => {
+      written.push(actual.read(actual.write(wb, { type: 'array', bookType: 'xlsx' }), { type: 'array' }))
+    },
+  }
+})
+
+function exportedRows(params: Parameters<typeof exportToExcel>[0]): SheetRows {
+  written.length = 0
+  exportToExcel(params)
+  return XLSX.utils.sheet_to_json(written[0].Sheets['登记表'], { header: 1, blankrows: false, defval: '' })
+}
+
+describe('grade sheet round trip', () => {
+  const entries: Entry[] = [
+    { id: '1', studentId: '202401', name: '张三', score: 139.5, status: 'graded', comment: '书写工整' },
+    { id: '2', studentId: '202402', name: '李四', score: '', status: 'missing' },
+    { id: '3', studentId: '202403', name: '王五', score: 120, status: 'late' },
+  ]
+
+  it('reads back what it exported, including a custom scale', () => {
+    const sheet = parseExportedGradeSheet(
+      exportedRows({
+        className: '三年二班',
+        date: '2026-10-19',
+        homeworkTitle: '第三单元作文',
+        gradingScale: resolveGradingScale('custom', 150),
+        entries,
+        pending: [{ studentId: '202404', name: '赵六' }],
+      }),
+    )
+
+    expect(sheet).toMatchObject({
+      className: '三年二班',
+      date: '2026-10-19',
+      homeworkTitle: '第三单元作文',
+      gradingScaleId: 'custom',
+      customMaxScore: 150,
+    })
+    // The 未评 row of the pending student is not imported: it comes back from the roster
+    expect(sheet.entries.map((e) => [e.studentId, e.name, e.score, e.status, e.comment])).toEqual([
+      ['202401', '张三', 139.5, 'graded', '书写工整'],
+      ['202402', '李四', '', 'missing', undefined],
+      ['202403', '王五', 120, 'late', undefined],
+    ])
+  })
+
+  it('keeps level grades and an untitled homework', () => {
+    const sheet = parseExportedGradeSheet(
+      exportedRows({
+        className: '',
+        date: '2026-10-19',
+        homeworkTitle: '',
+        gradingScale: resolveGradingScale('level4', 0),
+        entries: [{ id: '1', studentId: '', name: '张三', score: '良' }],
+        pending: [],
+      }),
+    )
+    expect(sheet).toMatchObject({ gradingScaleId: 'level4', homeworkTitle: '' })
+    expect(sheet.entries.map((e) => [e.name, e.score])).toEqual([['张三', '良']])
+  })
+
+  it('rejects sheets it did not write', () => {
+    expect(() => parseExportedGradeSheet([['姓名', '成绩'], ['张三', 90]])).toThrow('无法识别该文件')
+  })
+})
+
+describe('roster import', () => {
+  it('finds columns by header and filters by class', () => {
+    const rows: SheetRows = [
+      ['学校名单'],
+      ['序号', '学号', '姓名', '性别', '班级'],
+      [1, 202401, '张三', '男', '三年二班'],
+      [2, 202402, '李 四', '女', '三年二班'],
+      [3, 202501, '王五', '男', '三年三班'],
+    ]
+    const mapping = detectRosterColumns(rows)
+    expect(mapping).toEqual({ headerRow: 1, studentId: 1, name: 2, gender: 3, className: 4 })
+    expect(rosterClassesFromRows(rows, mapping)).toEqual(['三年二班', '三年三班'])
+    expect(rosterItemsFromRows(rows, mapping, '三年二班')).toEqual([
+      { studentId: '202401', name: '张三' },
+      { studentId: '202402', name: '李四' },
+    ])
+  })
+
+  it('guesses the name and id columns of a sheet without a header', () => {
+    const rows: SheetRows = [
+      ['202401', '张三'],
+      ['202402', '李四'],
+      ['202403', '欧阳娜娜'],
+    ]
+    const mapping = detectRosterColumns(rows)
+    expect(mapping).toMatchObject({ headerRow: -1, studentId: 0, name: 1 })
+    expect(rosterItemsFromRows(rows, mapping, '')).toHaveLength(3)
+  })
+})
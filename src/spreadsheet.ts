@@ -0,0 +1,233 @@
+import * as XLSX from 'xlsx'
+import { ENTRY_STATUS_LABELS, type Entry, type EntryStatus, entryStatusLabel, isEntryResolved } from './entries.ts'
+import {
+  GRADING_SCALE_CUSTOM,
+  GRADING_SCALE_PRESETS,
+  type GradingScale,
+  gradeToPercent,
+  parseGrade,
+  resolveGradingScale,
+} from './grading.ts'
+import { type RosterItem, normalizeStudentId, normalizeStudentName, uniqueRosterItems } from './roster.ts'
+import { computeScoreStats, scoreStatsRows } from './stats.ts'
+import { uid } from './utils.ts'
+
+export function exportToExcel(params: {
+  className: string
+  date: string
+  homeworkTitle: string
+  gradingScale: GradingScale
+  entries: Entry[]
+  /** Roster students without a resolved entry, exported as "未评" */
+  pending: RosterItem[]
+}) {
+  const { className, date, homeworkTitle, gradingScale, entries, pending } = params
+  const withPercent = gradingScale.id !== 'percent'
+  const clean = [
+    ...entries
+      .filter((e) => e.name.trim() && isEntryResolved(e))
+      .map((e) => ({
+        studentId: e.studentId.trim(),
+        name: e.name.trim(),
+        score: e.score,
+        percent: gradeToPercent(e.score, gradingScale) ?? '',
+        status: entryStatusLabel(e),
+        comment: e.comment?.trim() ?? '',
+      })),
+    ...pending.map((r) => ({ studentId: r.studentId, name: r.name, score: '', percent: '', status: '未评', comment: '' })),
+  ]
+    .sort((a, b) => {
+      const aid = a.studentId || ''
+      const bid = b.studentId || ''
+      if (aid && bid) return aid.localeCompare(bid, 'en')
+      if (aid) return -1
+      if (bid) return 1
+      return a.name.localeCompare(b.name, 'zh-Hans-CN')
+    })
+
+  // The class goes last so older readers still find the scale label in column F
+  const metaRow = ['日期', date, '作业', homeworkTitle || '（未填写）', '评分制', gradingScale.label, '班级', className]
+  const aoa: (string | number)[][] = [
+    ['语文作业成绩登记表'],
+    metaRow,
+    [],
+    withPercent ? ['学号', '姓名', '成绩', '百分制换算', '状态', '评语'] : ['学号', '姓名', '成绩', '状态', '评语'],
+    ...clean.map((r) =>
+      withPercent
+        ? [r.studentId, r.name, r.score, r.percent, r.status, r.comment]
+        : [r.studentId, r.name, r.score, r.status, r.comment],
+    ),
+  ]
+
+  const ws = XLSX.utils.aoa_to_sheet(aoa)
+  // Column D also holds the homework title in the header row
+  ws['!cols'] = withPercent
+    ? [{ wch: 14 }, { wch: 14 }, { wch: 8 }, { wch: 24 }, { wch: 8 }, { wch: 40 }]
+    : [{ wch: 14 }, { wch: 14 }, { wch: 8 }, { wch: 24 }, { wch: 40 }, { wch: 20 }]
+  const wb = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(wb, ws, '登记表')
+
+  const stats = computeScoreStats(entries, gradingScale)
+  if (stats) {
+    const statsWs = XLSX.utils.aoa_to_sheet([
+      ['班级成绩统计'],
+      metaRow,
+      [],
+      ...scoreStatsRows(stats, gradingScale),
+    ])
+    statsWs['!cols'] = [{ wch: 22 }, { wch: 12 }]
+    XLSX.utils.book_append_sheet(wb, statsWs, '统计')
+  }
+
+  const filename = `语文作业成绩_${date}.xlsx`
+  XLSX.writeFile(wb, filename)
+}
+
+// Spreadsheet import (roster from the school system; grade sheets exported by exportToExcel)
+type SheetCell = string | number | boolean | null
+export type SheetRows = SheetCell[][]
+
+export type RosterColumnMapping = {
+  headerRow: number // -1 when the sheet has no header row
+  studentId: number // -1 when absent
+  name: number
+  gender: number
+  className: number
+}
+
+const ROSTER_HEADER_ALIASES: Record<Exclude<keyof RosterColumnMapping, 'headerRow'>, string[]> = {
+  studentId: ['学号', '學號', '学生编号', '编号', '学籍号', 'id', 'studentid'],
+  name: ['姓名', '学生姓名', '名字', 'name'],
+  gender: ['性别', '性別', 'gender'],
+  className: ['班级', '班級', '班别', 'class'],
+}
+
+export async function readSpreadsheetRows(file: File): Promise<SheetRows> {
+  const buf = await file.arrayBuffer()
+  let wb: XLSX.WorkBook
+  if (/\.csv$/i.test(file.name) || file.type === 'text/csv') {
+    // School systems often export GBK-encoded CSV
+    let text = new TextDecoder('utf-8').decode(buf)
+    if (text.includes('\uFFFD')) text = new TextDecoder('gbk').decode(buf)
+    wb = XLSX.read(text.replace(/^\uFEFF/, ''), { type: 'string' })
+  } else {
+    wb = XLSX.read(buf, { type: 'array' })
+  }
+  const sheet = wb.Sheets[wb.SheetNames[0] ?? '']
+  if (!sheet) throw new Error('文件中没有可读取的工作表。')
+  return XLSX.utils.sheet_to_json<SheetCell[]>(sheet, { header: 1, blankrows: false, defval: '' })
+}
+
+function cellText(cell: SheetCell | undefined) {
+  return cell === null || cell === undefined ? '' : String(cell).trim()
+}
+
+export function detectRosterColumns(rows: SheetRows): RosterColumnMapping {
+  const headerKey = (s: string) => s.replace(/\s+/g, '').toLowerCase()
+  for (let r = 0; r < Math.min(rows.length, 10); r++) {
+    const cells = rows[r].map((c) => headerKey(cellText(c)))
+    const find = (aliases: string[]) => cells.findIndex((c) => aliases.includes(c))
+    const name = find(ROSTER_HEADER_ALIASES.name)
+    if (name === -1) continue
+    return {
+      headerRow: r,
+      studentId: find(ROSTER_HEADER_ALIASES.studentId),
+      name,
+      gender: find(ROSTER_HEADER_ALIASES.gender),
+      className: find(ROSTER_HEADER_ALIASES.className),
+    }
+  }
+
+  // No header: guess by content (names are 2-4 Chinese chars, ids are 4+ digits)
+  const width = Math.max(0, ...rows.slice(0, 30).map((r) => r.length))
+  const share = (col: number, re: RegExp) => {
+    const sample = rows.slice(0, 30).map((r) => cellText(r[col])).filter(Boolean)
+    return sample.length ? sample.filter((v) => re.test(v)).length / sample.length : 0
+  }
+  let name = -1
+  let studentId = -1
+  for (let c = 0; c < width; c++) {
+    if (name === -1 && share(c, /^[\u4e00-\u9fa5·]{2,5}$/) >= 0.6) name = c
+    else if (studentId === -1 && share(c, /^\d{4,}$/) >= 0.6) studentId = c
+  }
+  return { headerRow: -1, studentId, name, gender: -1, className: -1 }
+}
+
+export function sheetColumnLabel(rows: SheetRows, mapping: RosterColumnMapping, col: number) {
+  const letter = XLSX.utils.encode_col(col)
+  const header = mapping.headerRow >= 0 ? cellText(rows[mapping.headerRow]?.[col]) : ''
+  return header ? `${letter} 列（${header}）` : `${letter} 列`
+}
+
+export function rosterClassesFromRows(rows: SheetRows, mapping: RosterColumnMapping) {
+  if (mapping.className === -1) return []
+  const classes = rows.slice(mapping.headerRow + 1).map((r) => cellText(r[mapping.className]))
+  return Array.from(new Set(classes.filter(Boolean)))
+}
+
+export function rosterItemsFromRows(rows: SheetRows, mapping: RosterColumnMapping, classFilter: string) {
+  if (mapping.name === -1) return []
+  const items: RosterItem[] = []
+  for (const row of rows.slice(mapping.headerRow + 1)) {
+    if (classFilter && mapping.className !== -1 && cellText(row[mapping.className]) !== classFilter) continue
+    const name = normalizeStudentName(cellText(row[mapping.name]))
+    if (!name) continue
+    const studentId = mapping.studentId === -1 ? '' : normalizeStudentId(cellText(row[mapping.studentId]))
+    items.push({ studentId, name })
+  }
+  return uniqueRosterItems(items)
+}
+
+/** Read back a workbook written by exportToExcel (sheet "登记表"). */
+export function parseExportedGradeSheet(rows: SheetRows) {
+  const metaRow = rows.find((r) => cellText(r[0]) === '日期')
+  const headerIndex = rows.findIndex((r) => cellText(r[0]) === '学号' && cellText(r[1]) === '姓名')
+  if (!metaRow || headerIndex === -1) {
+    throw new Error('无法识别该文件：请选择本系统导出的成绩登记表（语文作业成绩_<日期>.xlsx）。')
+  }
+  const header = rows[headerIndex].map((c) => cellText(c))
+  const scoreCol = header.indexOf('成绩')
+  const statusCol = header.indexOf('状态')
+  const commentCol = header.indexOf('评语')
+  const scaleLabel = cellText(metaRow[5])
+  const customMax = scaleLabel.match(/^自定义（满分 (\d+(?:\.\d+)?)）$/)
+  const gradingScaleId = customMax
+    ? GRADING_SCALE_CUSTOM
+    : GRADING_SCALE_PRESETS.find((sc) => sc.label === scaleLabel)?.id ?? GRADING_SCALE_PRESETS[0].id
+  const customMaxScore = customMax ? Number(customMax[1]) : 100
+  const gradingScale = resolveGradingScale(gradingScaleId, customMaxScore)
+
+  const statusByLabel = new Map(
+    (Object.keys(ENTRY_STATUS_LABELS) as EntryStatus[]).map((st) => [ENTRY_STATUS_LABELS[st], st] as const),
+  )
+  const entries: Entry[] = []
+  for (const row of rows.slice(headerIndex + 1)) {
+    const name = cellText(row[1])
+    if (!name) continue
+    const rawScore = scoreCol === -1 ? '' : cellText(row[scoreCol])
+    const comment = commentCol === -1 ? '' : cellText(row[commentCol])
+    // Exports without a 状态 column wrote "缺交" into the score column
+    const status = rawScore === '缺交' ? 'missing' : statusCol === -1 ? undefined : statusByLabel.get(cellText(row[statusCol]))
+    const score = rawScore && rawScore !== '缺交' ? parseGrade(rawScore, gradingScale) : null
+    if (score === null && !status) continue // "未评" rows are regenerated from the roster
+    entries.push({
+      id: uid(),
+      studentId: normalizeStudentId(cellText(row[0])),
+      name,
+      score: score ?? '',
+      status,
+      ...(comment ? { comment } : {}),
+    })
+  }
+
+  const classIndex = metaRow.findIndex((c) => cellText(c) === '班级')
+  return {
+    /** Empty for sheets exported before the class was written */
+    className: classIndex === -1 ? '' : cellText(metaRow[classIndex + 1]),
+    date: cellText(metaRow[1]),
+    homeworkTitle: cellText(metaRow[3]) === '（未填写）' ? '' : cellText(metaRow[3]),
+    gradingScaleId,
+    customMaxScore,
+    entries,
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import type { Entry } from './entries.ts'
+import { GRADING_SCALE_PRESETS } from './grading.ts'
+import { computeScoreStats, scoreStatsItems } from './stats.ts'
+
+const [percent, , oneFifty, level4] = GRADING_SCALE_PRESETS
+
+const entries = (scores: Array<Entry['score']>): Entry[] =>
+  scores.map((score, i) => ({ id: String(i), studentId: '', name: `学生${i}`, score }))
+
+describe('computeScoreStats', () => {
+  it('summarizes scored entries and skips unscored ones', () => {
+    const stats = computeScoreStats(entries([95, 85, 72, 58, '']), percent)
+    expect(stats).toMatchObject({ count: 4, average: 77.5, median: 78.5, max: 95, min: 58, passRate: 75, excellentRate: 50 })
+    expect(stats?.histogram).toEqual([
+      { label: '<60', count: 1 },
+      { label: '60~<70', count: 0 },
+      { label: '70~<80', count: 1 },
+      { label: '80~<90', count: 1 },
+      { label: '90~100', count: 1 },
+    ])
+  })
+
+  it('labels bands and shows figures in the units of a 150-point scale', () => {
+    const stats = computeScoreStats(entries([150, 120, 90]), oneFifty)
+    expect(stats?.histogram.map((b) => b.label)).toEqual(['<90', '90~<105', '105~<120', '120~<135', '135~150'])
+    expect(stats?.histogram.map((b) => b.count)).toEqual([0, 1, 0, 1, 1])
+    expect(scoreStatsItems(stats!, oneFifty)).toContainEqual(['平均分', '120'])
+  })
+
+  it('counts levels and averages them through their percentages', () => {
+    const stats = computeScoreStats(entries(['优', '良', '良', '差']), level4)
+    expect(stats?.histogram).toEqual([
+      { label: '优', count: 1 },
+      { label: '良', count: 2 },
+      { label: '中', count: 0 },
+      { label: '差', count: 1 },
+    ])
+    expect(scoreStatsItems(stats!, level4)).toContainEqual(['平均分（按百分制换算）', '78.8%'])
+  })
+
+  it('has nothing to show without scores', () => {
+    expect(computeScoreStats(entries(['', '']), percent)).toBeNull()
+  })
+})
@@ -0,0 +1,100 @@
+import type { Entry } from './entries.ts'
+import { type GradingScale, gradeToPercent } from './grading.ts'
+
+// Class statistics (computed on percentages so every grading scale reads the same way)
+export const PASS_PERCENT = 60
+export const EXCELLENT_PERCENT = 85
+
+type ScoreStats = {
+  count: number
+  average: number
+  median: number
+  max: number
+  min: number
+  passRate: number
+  excellentRate: number
+  histogram: Array<{ label: string; count: number }>
+}
+
+function roundTo(n: number, digits: number) {
+  const f = 10 ** digits
+  return Math.round(n * f) / f
+}
+
+// Bands are percentages of the scale's maximum; labels show them in the scale's own units
+const SCORE_BANDS_PERCENT = [
+  { from: 0, to: 60 },
+  { from: 60, to: 70 },
+  { from: 70, to: 80 },
+  { from: 80, to: 90 },
+  { from: 90, to: Infinity },
+]
+
+/** e.g. on a 150-point scale: "<90", "90~<105", ..., "135~150". */
+function scoreBandLabel(band: { from: number; to: number }, scale: Extract<GradingScale, { kind: 'numeric' }>) {
+  const at = (percent: number) => roundTo((percent / 100) * scale.max, 1)
+  if (band.from === 0) return `<${at(band.to)}`
+  if (band.to === Infinity) return `${at(band.from)}~${scale.max}`
+  return `${at(band.from)}~<${at(band.to)}`
+}
+
+export function computeScoreStats(entries: Entry[], scale: GradingScale): ScoreStats | null {
+  const percents = entries
+    .map((e) => gradeToPercent(e.score, scale))
+    .filter((p): p is number => p !== null)
+    .sort((a, b) => a - b)
+  if (!percents.length) return null
+
+  const count = percents.length
+  const sum = percents.reduce((acc, p) => acc + p, 0)
+  const mid = Math.floor(count / 2)
+  const median = count % 2 ? percents[mid] : (percents[mid - 1] + percents[mid]) / 2
+
+  const histogram =
+    scale.kind === 'levels'
+      ? scale.levels.map((l) => ({ label: l.label, count: entries.filter((e) => e.score === l.label).length }))
+      : SCORE_BANDS_PERCENT.map((b) => ({
+          label: scoreBandLabel(b, scale),
+          count: percents.filter((p) => p >= b.from && p < b.to).length,
+        }))
+
+  return {
+    count,
+    average: roundTo(sum / count, 1),
+    median: roundTo(median, 1),
+    max: percents[count - 1],
+    min: percents[0],
+    passRate: roundTo((percents.filter((p) => p >= PASS_PERCENT).length / count) * 100, 1),
+    excellentRate: roundTo((percents.filter((p) => p >= EXCELLENT_PERCENT).length / count) * 100, 1),
+    histogram,
+  }
+}
+
+/** A percentage shown in the units of the scale (e.g. 85% of 150 -> 127.5). */
+function percentToScaleText(percent: number, scale: GradingScale) {
+  if (scale.kind === 'levels') return `${percent}%`
+  return String(roundTo((percent / 100) * scale.max, 1))
+}
+
+export function scoreStatsItems(stats: ScoreStats, scale: GradingScale): Array<[string, string | number]> {
+  const unit = scale.kind === 'levels' ? '（按百分制换算）' : ''
+  return [
+    ['已评人数', stats.count],
+    [`平均分${unit}`, percentToScaleText(stats.average, scale)],
+    [`中位数${unit}`, percentToScaleText(stats.median, scale)],
+    [`最高分${unit}`, percentToScaleText(stats.max, scale)],
+    [`最低分${unit}`, percentToScaleText(stats.min, scale)],
+    [`及格率（≥${PASS_PERCENT}%）`, `${stats.passRate}%`],
+    [`优秀率（≥${EXCELLENT_PERCENT}%）`, `${stats.excellentRate}%`],
+  ]
+}
+
+export function scoreStatsRows(stats: ScoreStats, scale: GradingScale): (string | number)[][] {
+  return [
+    ['统计项', '数值'],
+    ...scoreStatsItems(stats, scale),
+    [],
+    [scale.kind === 'levels' ? '等级' : `分数段（满分 ${scale.max}）`, '人数'],
+    ...stats.histogram.map((b) => [b.label, b.count]),
+  ]
+}
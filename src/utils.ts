@@ -0,0 +1,37 @@
+export function isAbortError(e: unknown) {
+  return e instanceof DOMException && e.name === 'AbortError'
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export function localDateISO(d: Date) {
+  const yyyy = String(d.getFullYear())
+  const mm = String(d.getMonth() + 1).padStart(2, '0')
+  const dd = String(d.getDate()).padStart(2, '0')
+  return `${yyyy}-${mm}-${dd}`
+}
+
+export function safeTodayISO() {
+  return localDateISO(new Date())
+}
+
+export function uid() {
+  if ('randomUUID' in crypto) return crypto.randomUUID()
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`
+}
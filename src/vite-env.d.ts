@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY?: string
   readonly VITE_QWEN_API_KEY?: string
+  readonly VITE_OPENAI_API_KEY?: string
+  readonly VITE_OPENAI_BASE_URL?: string
+  readonly VITE_AI_PROXY_URL?: string
+  readonly VITE_AI_PROVIDER?: string
 }
 
 interface ImportMeta {
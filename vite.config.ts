@@ -1,11 +1,23 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  build: {
-    outDir: 'dist',
-    sourcemap: true,
-  },
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', 'VITE_')
+  // With the proxy preset the keys live on the proxy server, so keep them out of the bundle entirely
+  const stripKeys = Boolean(env.VITE_AI_PROXY_URL)
+  return {
+    plugins: [react()],
+    define: stripKeys
+      ? {
+          'import.meta.env.VITE_GEMINI_API_KEY': 'undefined',
+          'import.meta.env.VITE_QWEN_API_KEY': 'undefined',
+          'import.meta.env.VITE_OPENAI_API_KEY': 'undefined',
+        }
+      : {},
+    build: {
+      outDir: 'dist',
+      sourcemap: true,
+    },
+  }
 })